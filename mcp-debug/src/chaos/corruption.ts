@@ -0,0 +1,135 @@
+import type { CorruptionMode } from './types.js';
+
+// Evaluation order when several modes are configured; the first one drawn wins
+export const CORRUPTION_MODES: CorruptionMode[] = [
+  'truncate',
+  'emptyResult',
+  'dropContent',
+  'garbleText',
+  'wrongTypes',
+  'flipIsError',
+];
+
+const GARBLE_CHARS = 'abcdefghijklmnopqrstuvwxyz0123456789{}[]<>"\\\'?!#%&*\uFFFD';
+
+// Result arrays that dropContent thins out, in lookup order. Covers tool
+// content, resource contents, prompt messages and the list methods.
+const LIST_KEYS = ['content', 'contents', 'messages', 'tools', 'resources', 'resourceTemplates', 'prompts'];
+
+type Random = () => number;
+
+interface ContentItem {
+  type?: string;
+  text?: string;
+  [key: string]: unknown;
+}
+
+/**
+ * Cut a serialized JSON-RPC message somewhere in the middle so it no longer parses
+ */
+export function truncateLine(line: string, random: Random): string {
+  if (line.length < 2) return '';
+  const cut = 1 + Math.floor(random() * (line.length - 1));
+  return line.slice(0, cut);
+}
+
+/**
+ * Replace roughly a quarter of the characters in a string with junk
+ */
+function garble(text: string, random: Random): string {
+  let out = '';
+  for (const char of text) {
+    if (random() < 0.25) {
+      out += GARBLE_CHARS[Math.floor(random() * GARBLE_CHARS.length)];
+    } else {
+      out += char;
+    }
+  }
+  return out;
+}
+
+/**
+ * Return a value of a different JSON type than the one given
+ */
+function wrongType(value: unknown): unknown {
+  if (value === null) return 0;
+  if (Array.isArray(value)) return { length: value.length };
+  switch (typeof value) {
+    case 'string':
+      return value.length;
+    case 'number':
+      return String(value);
+    case 'boolean':
+      return value ? 'true' : 'false';
+    case 'object':
+      return Object.values(value as Record<string, unknown>);
+    default:
+      return null;
+  }
+}
+
+/**
+ * Apply a structural corruption mode to an MCP result object (tool results,
+ * resource reads, prompts and list responses alike).
+ * 'truncate' operates on the wire format and is handled by truncateLine().
+ */
+export function corruptResult(mode: CorruptionMode, result: unknown, random: Random): unknown {
+  if (mode === 'emptyResult') {
+    return {};
+  }
+
+  if (typeof result !== 'object' || result === null) {
+    return result;
+  }
+
+  const obj = result as Record<string, unknown>;
+
+  switch (mode) {
+    case 'dropContent': {
+      const key = LIST_KEYS.find((k) => Array.isArray(obj[k]));
+      if (!key) return obj;
+      const list = obj[key] as unknown[];
+      if (list.length === 0) return obj;
+      // Drop each entry with 50% chance, but always drop at least one
+      const forced = Math.floor(random() * list.length);
+      const kept = list.filter((_, i) => i !== forced && random() >= 0.5);
+      return { ...obj, [key]: kept };
+    }
+
+    case 'garbleText': {
+      const garbleItem = (item: ContentItem): ContentItem =>
+        typeof item.text === 'string' ? { ...item, text: garble(item.text, random) } : item;
+      const out = { ...obj };
+      for (const key of ['content', 'contents']) {
+        if (Array.isArray(obj[key])) {
+          out[key] = (obj[key] as ContentItem[]).map(garbleItem);
+        }
+      }
+      // Prompt messages nest their content one level down
+      if (Array.isArray(obj.messages)) {
+        out.messages = (obj.messages as Array<{ content?: ContentItem }>).map((message) =>
+          message.content ? { ...message, content: garbleItem(message.content) } : message
+        );
+      }
+      return out;
+    }
+
+    case 'wrongTypes': {
+      const structured = obj.structuredContent;
+      if (typeof structured !== 'object' || structured === null || Array.isArray(structured)) {
+        return obj;
+      }
+      const mutated: Record<string, unknown> = {};
+      for (const [key, value] of Object.entries(structured)) {
+        mutated[key] = wrongType(value);
+      }
+      return { ...obj, structuredContent: mutated };
+    }
+
+    case 'flipIsError':
+      return { ...obj, isError: !obj.isError };
+
+    default:
+      return obj;
+  }
+}
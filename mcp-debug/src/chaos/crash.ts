@@ -0,0 +1,65 @@
+import type { CrashConfig } from './types.js';
+import { SeededRandom } from './injector.js';
+
+export type CrashTrigger = 'calls' | 'time';
+
+/**
+ * Decides when the proxy kills its target. Call triggers count tool calls
+ * since the target last started; time triggers run on a timer that is
+ * re-armed after every restart.
+ */
+export class CrashScheduler {
+  private config: CrashConfig;
+  private rng: SeededRandom;
+  private onCrash: (trigger: CrashTrigger) => void;
+  private timer?: NodeJS.Timeout;
+  private crashes = 0;
+  private callsSinceStart = 0;
+  private armed = false;
+
+  constructor(config: CrashConfig, seed: number, onCrash: (trigger: CrashTrigger) => void) {
+    this.config = config;
+    this.rng = new SeededRandom(seed);
+    this.onCrash = onCrash;
+  }
+
+  /**
+   * Arm the triggers for a freshly started target, unless the crash budget is spent
+   */
+  start(): void {
+    this.stop();
+    this.callsSinceStart = 0;
+    this.armed = this.crashes < (this.config.maxCrashes ?? 1);
+    if (!this.armed) return;
+
+    const { atMs } = this.config;
+    if (atMs !== undefined) {
+      const delay = typeof atMs === 'number' ? atMs : this.rng.nextInt(atMs.min, atMs.max);
+      this.timer = setTimeout(() => this.fire('time'), delay);
+      this.timer.unref();
+    }
+  }
+
+  /**
+   * Count a tool call forwarded to the target; the `afterCalls`-th one crashes it
+   */
+  onToolCall(): void {
+    this.callsSinceStart++;
+    if (this.config.afterCalls !== undefined && this.callsSinceStart === this.config.afterCalls) {
+      this.fire('calls');
+    }
+  }
+
+  stop(): void {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+  }
+
+  private fire(trigger: CrashTrigger): void {
+    if (!this.armed) return;
+    this.armed = false;
+    this.stop();
+    this.crashes++;
+    this.onCrash(trigger);
+  }
+}
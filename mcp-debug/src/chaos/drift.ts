@@ -0,0 +1,114 @@
+import type { DriftConfig } from './types.js';
+import type { RpcError } from '../tracer/types.js';
+
+type Random = () => number;
+
+interface JsonSchema {
+  properties?: Record<string, unknown>;
+  required?: string[];
+  [key: string]: unknown;
+}
+
+interface Tool {
+  name: string;
+  description?: string;
+  inputSchema?: JsonSchema;
+  [key: string]: unknown;
+}
+
+/**
+ * Rename the keys of an object, keeping unmapped keys as they are
+ */
+function renameKeys<T>(obj: Record<string, T>, renames: Record<string, string>): Record<string, T> {
+  const out: Record<string, T> = {};
+  for (const [key, value] of Object.entries(obj)) {
+    out[renames[key] ?? key] = value;
+  }
+  return out;
+}
+
+/**
+ * Rewrite one tool definition as the drifted server would advertise it
+ */
+function driftTool(tool: Tool, drift: DriftConfig): Tool {
+  const paramRenames = drift.renameParams?.[tool.name] ?? {};
+  const added = drift.addRequired?.[tool.name] ?? {};
+  const drifted: Tool = {
+    ...tool,
+    name: drift.renameTools?.[tool.name] ?? tool.name,
+    description: drift.descriptions?.[tool.name] ?? tool.description,
+  };
+
+  if (Object.keys(paramRenames).length > 0 || Object.keys(added).length > 0) {
+    const schema = tool.inputSchema ?? { type: 'object' };
+    drifted.inputSchema = {
+      ...schema,
+      properties: { ...renameKeys(schema.properties ?? {}, paramRenames), ...added },
+      required: [...(schema.required ?? []).map((name) => paramRenames[name] ?? name), ...Object.keys(added)],
+    };
+  }
+
+  return drifted;
+}
+
+/**
+ * Apply catalog drift to a tools/list result
+ */
+export function driftToolList(result: unknown, drift: DriftConfig, random: Random): unknown {
+  if (typeof result !== 'object' || result === null) return result;
+  const obj = result as { tools?: unknown };
+  if (!Array.isArray(obj.tools)) return result;
+
+  const tools = (obj.tools as Tool[]).map((tool) => driftTool(tool, drift));
+  if (drift.reorder === 'reverse') {
+    tools.reverse();
+  } else if (drift.reorder === 'shuffle') {
+    // Fisher-Yates
+    for (let i = tools.length - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1));
+      [tools[i], tools[j]] = [tools[j], tools[i]];
+    }
+  }
+
+  return { ...obj, tools };
+}
+
+export type TranslatedCall =
+  | { name: string; args: Record<string, unknown> }
+  | { error: RpcError };
+
+/**
+ * Map a call made against the drifted catalog back to the target's real tool
+ * and parameters. Calls the drifted server would reject (old tool names,
+ * missing new required arguments) come back as errors.
+ */
+export function translateToolCall(name: string, args: unknown, drift: DriftConfig): TranslatedCall {
+  const toolRenames = drift.renameTools ?? {};
+  const realName = Object.keys(toolRenames).find((real) => toolRenames[real] === name) ?? name;
+
+  // The old name is gone from the catalog
+  if (realName === name && toolRenames[name] !== undefined && toolRenames[name] !== name) {
+    return { error: { code: -32602, message: `Unknown tool: ${name}` } };
+  }
+
+  const input = typeof args === 'object' && args !== null && !Array.isArray(args)
+    ? { ...(args as Record<string, unknown>) }
+    : {};
+
+  // Added parameters are required by the drifted schema but unknown to the target
+  const added = Object.keys(drift.addRequired?.[realName] ?? {});
+  const missing = added.filter((param) => !(param in input));
+  if (missing.length > 0) {
+    return { error: { code: -32602, message: `Missing required argument: ${missing.join(', ')}` } };
+  }
+  for (const param of added) {
+    delete input[param];
+  }
+
+  const paramRenames = drift.renameParams?.[realName] ?? {};
+  const advertisedToReal = Object.fromEntries(
+    Object.entries(paramRenames).map(([real, advertised]) => [advertised, real])
+  );
+
+  return { name: realName, args: renameKeys(input, advertisedToReal) };
+}
@@ -0,0 +1,43 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ChaosInjector, type PhaseTransition } from './injector.js';
+
+const readFile = { method: 'tools/call', tool: 'read_file', args: { path: 'a' } };
+
+test('a call rejected as hidden still counts toward its phase', () => {
+  const injector = new ChaosInjector({
+    seed: 1,
+    phases: [
+      { name: 'gone', calls: 1, methods: { 'tools/list': { hideTools: ['read_file'] } } },
+      { name: 'back' },
+    ],
+  });
+  const transitions: PhaseTransition[] = [];
+  injector.onPhaseChange((transition) => transitions.push(transition));
+
+  const hidden = injector.applyChaos(readFile);
+  assert.deepEqual(hidden.hiddenTools, ['read_file']);
+  assert.equal(hidden.phase, 'gone');
+
+  const visible = injector.applyChaos(readFile);
+  assert.equal(visible.hiddenTools, undefined);
+  assert.equal(visible.phase, 'back');
+  assert.deepEqual(transitions.map(({ phase, previous }) => ({ phase, previous })), [{ phase: 'back', previous: 'gone' }]);
+});
+
+test('rules with global-scope rate limits keep separate buckets', () => {
+  const injector = new ChaosInjector({
+    seed: 1,
+    global: { rateLimit: { requests: 1, windowMs: 60_000, scope: 'global' } },
+    tools: { search: { rateLimit: { requests: 3, windowMs: 60_000, scope: 'global' } } },
+  });
+  const search = { method: 'tools/call', tool: 'search' };
+
+  assert.equal(injector.getRetryAfter(readFile), undefined);
+  assert.notEqual(injector.getRetryAfter(readFile), undefined);
+
+  for (let i = 0; i < 3; i++) {
+    assert.equal(injector.getRetryAfter(search), undefined);
+  }
+  assert.notEqual(injector.getRetryAfter(search), undefined);
+});
@@ -1,10 +1,20 @@
-import type { ChaosConfig, ChaosRule, ChaosApplied, ProbabilisticValue } from './types.js';
+import type { ChaosConfig, ChaosPhase, ChaosRule, ChaosApplied, ProbabilisticValue, CorruptionMode, FailPattern, WireFault, AdversarialRule } from './types.js';
+import { CORRUPTION_MODES, corruptResult, truncateLine } from './corruption.js';
+import { findMatchingRule, ruleLabel } from './matcher.js';
+import { driftToolList, translateToolCall, type TranslatedCall } from './drift.js';
+import { WIRE_FAULTS } from './wire.js';
+import { injectPayload, payloadPool, type Payload } from './adversarial.js';
+import { TokenBucket } from './ratelimit.js';
+
+// setTimeout fires at once for anything longer (about 24.8 days), so a heavy-tailed
+// sample must never exceed it
+const MAX_DURATION_MS = 2 ** 31 - 1;
 
 /**
  * Seeded random number generator (mulberry32)
  * Provides deterministic randomness for reproducible chaos
  */
-class SeededRandom {
+export class SeededRandom {
   private state: number;
 
   constructor(seed: number) {
@@ -27,35 +37,280 @@ class SeededRandom {
   nextInt(min: number, max: number): number {
     return Math.floor(this.next() * (max - min + 1)) + min;
   }
+
+  /**
+   * Returns a normally distributed number (Box-Muller)
+   */
+  nextNormal(mean: number, stddev: number): number {
+    // 1 - next() is in (0, 1], so the log is finite
+    const u = 1 - this.next();
+    const v = this.next();
+    return mean + stddev * Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+  }
+
+  /**
+   * Returns a log-normally distributed number; sigma is the spread of its logarithm
+   */
+  nextLogNormal(median: number, sigma: number): number {
+    return Math.exp(this.nextNormal(Math.log(median), sigma));
+  }
+
+  /**
+   * Returns a Pareto distributed number, never below scale; lower shape means a heavier tail
+   */
+  nextPareto(scale: number, shape: number): number {
+    return scale / Math.pow(1 - this.next(), 1 / shape);
+  }
+
+  /**
+   * Returns an exponentially distributed number
+   */
+  nextExponential(mean: number): number {
+    return -mean * Math.log(1 - this.next());
+  }
+}
+
+/**
+ * Hash a seed and a call's identity into the seed for that call's decisions (FNV-1a),
+ * so each call's faults don't depend on how many other calls came before it
+ */
+function deriveSeed(seed: number, ...parts: Array<string | number>): number {
+  let hash = 0x811c9dc5;
+  for (const char of [seed, ...parts].join(':')) {
+    hash ^= char.charCodeAt(0);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Whether the given 1-based call number falls on a failure in the pattern
+ */
+function matchesFailPattern(pattern: FailPattern, call: number): boolean {
+  switch (pattern.type) {
+    case 'nth':
+      return call === pattern.n;
+    case 'every':
+      return pattern.n > 0 && call % pattern.n === 0;
+    case 'after':
+      return call > pattern.n;
+    case 'burst':
+      if (call < pattern.start) return false;
+      if (pattern.every) {
+        return (call - pattern.start) % pattern.every < pattern.length;
+      }
+      return call < pattern.start + pattern.length;
+    case 'flap':
+      return (call - 1) % (pattern.up + pattern.down) >= pattern.up;
+  }
+}
+
+// The JSON-RPC request chaos is decided for
+export interface ChaosCall {
+  method: string;
+  tool?: string;   // tools/call only
+  args?: unknown;  // Tool arguments for tools/call, otherwise the request params
+}
+
+/**
+ * Describe a JSON-RPC request for rule matching
+ */
+export function describeCall(method: string, params: unknown): ChaosCall {
+  if (method === 'tools/call') {
+    const { name, arguments: args } = (params ?? {}) as { name?: string; arguments?: unknown };
+    return { method, tool: name, args };
+  }
+  return { method, args: params };
+}
+
+/**
+ * Key used for per-tool (or per-method) call counters
+ */
+function callKey(call: ChaosCall): string {
+  return call.method === 'tools/call' ? `tools/call:${call.tool ?? '*'}` : call.method;
+}
+
+export interface PhaseTransition {
+  phase: string;
+  index: number;
+  previous?: string;
+  callCount: number;
+  at: number;  // Epoch ms the phase began; a time window's scheduled end, not the call that noticed it
 }
 
 export class ChaosInjector {
   private config: ChaosConfig;
   private rng: SeededRandom;
   private seed: number;
+  private callCount = 0;
+  private callCounts = new Map<string, number>();
+  private phaseIndex = -1;
+  private phaseStartedAt = Date.now();
+  private phaseCalls = 0;
+  private phaseListener?: (transition: PhaseTransition) => void;
+  // Adversarial payloads chosen for forwarded calls, placed once their results arrive
+  private pendingPayloads = new Map<string, { text: string; position: AdversarialRule['position'] }>();
+  private buckets = new Map<string, TokenBucket>();
 
   constructor(config: ChaosConfig) {
     this.config = config;
     this.seed = config.seed ?? Date.now();
     this.rng = new SeededRandom(this.seed);
+    if (config.phases && config.phases.length > 0) {
+      this.phaseIndex = 0;
+    }
   }
 
   getSeed(): number {
     return this.seed;
   }
 
-  private getRuleForTool(toolName?: string): ChaosRule {
-    // Tool-specific rule takes precedence
-    if (toolName && this.config.tools?.[toolName]) {
-      return { ...this.config.global, ...this.config.tools[toolName] };
+  /**
+   * Swap in a new config mid-session. The seed (unless the new config sets one)
+   * and call counts carry over, so per-call decisions stay reproducible.
+   * Phases start over from the first, which is reported as a transition.
+   */
+  reload(config: ChaosConfig): void {
+    const previous = this.getCurrentPhase()?.phase;
+    this.config = config;
+    this.seed = config.seed ?? this.seed;
+    this.phaseIndex = config.phases && config.phases.length > 0 ? 0 : -1;
+    this.phaseStartedAt = Date.now();
+    this.phaseCalls = 0;
+
+    const phase = this.getCurrentPhase();
+    if (phase) {
+      this.phaseListener?.({ ...phase, previous, callCount: this.callCount, at: this.phaseStartedAt });
     }
-    return this.config.global ?? {};
   }
 
   /**
-   * Resolve a probabilistic value to an actual number
+   * Register a callback for phase transitions
+   */
+  onPhaseChange(listener: (transition: PhaseTransition) => void): void {
+    this.phaseListener = listener;
+  }
+
+  /**
+   * Name and index of the active phase, or undefined when the config has no phases
+   */
+  getCurrentPhase(): { phase: string; index: number } | undefined {
+    if (!this.config.phases?.length) return undefined;
+    return { phase: this.phaseName(this.phaseIndex), index: this.phaseIndex };
+  }
+
+  private phaseName(index: number): string {
+    if (index < 0) return 'base';
+    return this.config.phases?.[index]?.name ?? `phase ${index + 1}`;
+  }
+
+  private get activePhase(): ChaosPhase | undefined {
+    return this.phaseIndex >= 0 ? this.config.phases?.[this.phaseIndex] : undefined;
+  }
+
+  /**
+   * Move past every phase whose call or time window has been used up. Time
+   * windows end on schedule, so idle time between calls doesn't stretch the
+   * phases that follow.
+   */
+  private advancePhase(): void {
+    const now = Date.now();
+    let phase = this.activePhase;
+    while (phase) {
+      const callsDone = phase.calls !== undefined && this.phaseCalls >= phase.calls;
+      const endsAt = phase.durationMs !== undefined ? this.phaseStartedAt + phase.durationMs : undefined;
+      const timeDone = endsAt !== undefined && now >= endsAt;
+      if (!callsDone && !timeDone) return;
+
+      const previous = this.phaseName(this.phaseIndex);
+      this.phaseIndex = this.phaseIndex + 1 < this.config.phases!.length ? this.phaseIndex + 1 : -1;
+      this.phaseStartedAt = timeDone ? endsAt : now;
+      this.phaseCalls = 0;
+      this.phaseListener?.({
+        phase: this.phaseName(this.phaseIndex),
+        index: this.phaseIndex,
+        previous,
+        callCount: this.callCount,
+        at: this.phaseStartedAt,
+      });
+      phase = this.activePhase;
+    }
+  }
+
+  private get activeRules(): ChaosConfig | ChaosPhase {
+    // An active phase replaces the top-level rules
+    return this.activePhase ?? this.config;
+  }
+
+  private getRule(call: ChaosCall): ChaosRule {
+    const rules = this.activeRules;
+    const rule: ChaosRule = {};
+
+    if (call.method === 'tools/call') {
+      // Tool-specific rule takes precedence over method-wide and global rules
+      Object.assign(rule, rules.global, rules.methods?.['tools/call']);
+      if (call.tool && rules.tools?.[call.tool]) {
+        Object.assign(rule, rules.tools[call.tool]);
+      }
+    } else {
+      Object.assign(rule, rules.methods?.[call.method]);
+    }
+
+    // A matching argument rule overrides both
+    const matched = findMatchingRule(rules.rules, call);
+    if (matched) {
+      const { name: _name, method: _method, tool: _tool, match: _match, ...overrides } = matched.rule;
+      Object.assign(rule, overrides);
+    }
+    return rule;
+  }
+
+  /**
+   * Label of the argument rule matching this call, if any
+   */
+  getMatchedRule(call: ChaosCall): string | undefined {
+    const matched = findMatchingRule(this.activeRules.rules, call);
+    return matched ? ruleLabel(matched.rule, matched.index) : undefined;
+  }
+
+  /**
+   * Tools currently hidden from tools/list responses
+   */
+  getHiddenTools(): string[] {
+    return this.getRule({ method: 'tools/list' }).hideTools ?? [];
+  }
+
+  /**
+   * Draw from a value's distribution, or undefined if its parameters are missing
+   */
+  private sample(value: ProbabilisticValue): number | undefined {
+    switch (value.distribution) {
+      case 'normal':
+        if (value.mean === undefined || value.stddev === undefined) return undefined;
+        return this.rng.nextNormal(value.mean, value.stddev);
+      case 'lognormal':
+        if (value.median === undefined || value.sigma === undefined) return undefined;
+        return this.rng.nextLogNormal(value.median, value.sigma);
+      case 'pareto':
+        if (value.scale === undefined || value.shape === undefined) return undefined;
+        return this.rng.nextPareto(value.scale, value.shape);
+      case 'exponential':
+        if (value.mean === undefined) return undefined;
+        return this.rng.nextExponential(value.mean);
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * Resolve a probabilistic value to a duration, capped at MAX_DURATION_MS
    */
   private resolveValue(value: number | ProbabilisticValue | undefined): number | undefined {
+    const resolved = this.drawValue(value);
+    return resolved === undefined ? undefined : Math.min(resolved, MAX_DURATION_MS);
+  }
+
+  private drawValue(value: number | ProbabilisticValue | undefined): number | undefined {
     if (value === undefined) return undefined;
 
     if (typeof value === 'number') {
@@ -73,6 +328,13 @@ export class ChaosInjector {
       return value.value;
     }
 
+    if (value.distribution) {
+      const sample = this.sample(value);
+      if (sample === undefined) return undefined;
+      const clamped = Math.min(value.max ?? Infinity, Math.max(value.min ?? 0, sample));
+      return Math.round(clamped);
+    }
+
     if (value.min !== undefined && value.max !== undefined) {
       return this.rng.nextInt(value.min, value.max);
     }
@@ -81,26 +343,87 @@ export class ChaosInjector {
   }
 
   /**
-   * Get delay to inject for a tool call
+   * Get delay to inject for a call
    */
-  getDelay(toolName?: string): number {
-    const rule = this.getRuleForTool(toolName);
+  getDelay(call: ChaosCall): number {
+    const rule = this.getRule(call);
     return this.resolveValue(rule.delayMs) ?? 0;
   }
 
   /**
-   * Get timeout for a tool call
+   * Get timeout for a call
    */
-  getTimeout(toolName?: string): number | undefined {
-    const rule = this.getRuleForTool(toolName);
+  getTimeout(call: ChaosCall): number | undefined {
+    const rule = this.getRule(call);
     return this.resolveValue(rule.timeoutMs);
   }
 
+  /**
+   * How a timed-out call is surfaced: a timeout error, or no answer at all
+   */
+  getTimeoutMode(call: ChaosCall): 'error' | 'hang' {
+    const rule = this.getRule(call);
+    return rule.timeoutMode ?? 'error';
+  }
+
+  /**
+   * Number of calls seen so far for a tool (or method), including the one in flight
+   */
+  getCallCount(call: ChaosCall): number {
+    return this.callCounts.get(callKey(call)) ?? 0;
+  }
+
+  /**
+   * Take a token from the call's rate-limit bucket. Returns how long the caller
+   * should wait before retrying, or undefined if the call is within budget.
+   */
+  getRetryAfter(call: ChaosCall): number | undefined {
+    const limit = this.getRule(call).rateLimit;
+    if (!limit) return undefined;
+
+    // Each rule keeps its own buckets, so differently limited rules don't drain each other
+    const source = this.rateLimitSource(call);
+    const key = limit.scope === 'global' ? source : `${source} ${callKey(call)}`;
+    let bucket = this.buckets.get(key);
+    if (!bucket) {
+      bucket = new TokenBucket(limit);
+      this.buckets.set(key, bucket);
+    }
+    return bucket.take(limit);
+  }
+
+  /**
+   * Config path of the rule the call's rate limit comes from, following getRule()'s precedence
+   */
+  private rateLimitSource(call: ChaosCall): string {
+    const rules = this.activeRules;
+    const prefix = this.activePhase ? `phases[${this.phaseIndex}].` : '';
+    const matched = findMatchingRule(rules.rules, call);
+    if (matched?.rule.rateLimit) return `${prefix}rules[${matched.index}]`;
+    if (call.method !== 'tools/call') return `${prefix}methods.${call.method}`;
+    if (call.tool && rules.tools?.[call.tool]?.rateLimit) return `${prefix}tools.${call.tool}`;
+    if (rules.methods?.['tools/call']?.rateLimit) return `${prefix}methods.tools/call`;
+    return `${prefix}global`;
+  }
+
+  /**
+   * Check if the current call falls on its failure pattern
+   */
+  private matchesPattern(call: ChaosCall): boolean {
+    const rule = this.getRule(call);
+    if (!rule.failPattern) return false;
+    return matchesFailPattern(rule.failPattern, this.getCallCount(call));
+  }
+
   /**
    * Check if this call should fail
    */
-  shouldFail(toolName?: string): boolean {
-    const rule = this.getRuleForTool(toolName);
+  shouldFail(call: ChaosCall): boolean {
+    if (this.matchesPattern(call)) {
+      return true;
+    }
+
+    const rule = this.getRule(call);
     if (rule.failRate === undefined || rule.failRate <= 0) {
       return false;
     }
@@ -110,12 +433,18 @@ export class ChaosInjector {
   /**
    * Get error response if call should fail
    */
-  getErrorResponse(toolName?: string): { code: number; message: string } | undefined {
-    if (!this.shouldFail(toolName)) {
+  getErrorResponse(call: ChaosCall): { code: number; message: string } | undefined {
+    if (!this.shouldFail(call)) {
       return undefined;
     }
+    return this.getInjectedError(call);
+  }
 
-    const rule = this.getRuleForTool(toolName);
+  /**
+   * Build the configured error for a call, without drawing whether it fails
+   */
+  getInjectedError(call: ChaosCall): { code: number; message: string } {
+    const rule = this.getRule(call);
     return {
       code: rule.errorCode ?? -32603,
       message: rule.errorMessage ?? 'Chaos-injected error',
@@ -125,15 +454,80 @@ export class ChaosInjector {
   /**
    * Check if response should be corrupted
    */
-  shouldCorruptResponse(toolName?: string): boolean {
-    const rule = this.getRuleForTool(toolName);
+  shouldCorruptResponse(call: ChaosCall): boolean {
+    const rule = this.getRule(call);
     return rule.corruptResponse ?? false;
   }
 
   /**
-   * Corrupt a response
+   * Pick the corruption mode to apply, drawing each configured mode's probability in turn
+   */
+  getCorruptionMode(call: ChaosCall): CorruptionMode | undefined {
+    const rule = this.getRule(call);
+    if (!rule.corruption) return undefined;
+
+    for (const mode of CORRUPTION_MODES) {
+      const p = rule.corruption[mode];
+      if (p !== undefined && p > 0 && this.rng.next() < p) {
+        return mode;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Draw each configured wire fault's probability; several can hit at once
    */
-  corruptResponse(response: unknown): unknown {
+  getWireFaults(call: ChaosCall): WireFault[] {
+    const rule = this.getRule(call);
+    if (!rule.wire) return [];
+
+    return WIRE_FAULTS.filter((fault) => {
+      const p = rule.wire![fault];
+      return p !== undefined && p > 0 && this.rng.next() < p;
+    });
+  }
+
+  /**
+   * Draw whether a call's result gets an adversarial payload, and which one
+   */
+  getAdversarialPayload(call: ChaosCall): Payload | undefined {
+    const rule = this.getRule(call).adversarial;
+    if (!rule || this.rng.next() >= rule.rate) return undefined;
+
+    const pool = payloadPool(rule);
+    if (pool.length === 0) return undefined;
+    return pool[Math.floor(this.rng.next() * pool.length)];
+  }
+
+  /**
+   * Place the payload chosen for a call into its result. Returns the new result
+   * and the chaos record with the payload's exact position, or without the
+   * injection if the result had no text to carry it.
+   */
+  injectAdversarial(result: unknown, call: ChaosCall, chaos: ChaosApplied): { result: unknown; chaos: ChaosApplied } {
+    const key = `${callKey(call)}#${chaos.callIndex}`;
+    const pending = this.pendingPayloads.get(key);
+    this.pendingPayloads.delete(key);
+    if (!chaos.adversarial || !pending) return { result, chaos };
+
+    const placed = injectPayload(result, pending.text, pending.position, this.responseRandom(call, chaos, 'adversarial'));
+    if (!placed) {
+      return { result, chaos: { ...chaos, adversarial: undefined } };
+    }
+    const { content, start, end } = placed;
+    return { result: placed.result, chaos: { ...chaos, adversarial: { ...chaos.adversarial, content, start, end } } };
+  }
+
+  /**
+   * Corrupt a response result. Without a mode, marks the result as corrupted
+   * (legacy `corruptResponse: true` behaviour).
+   */
+  corruptResponse(response: unknown, call: ChaosCall, chaos: ChaosApplied): unknown {
+    if (chaos.corruption) {
+      return corruptResult(chaos.corruption, response, this.responseRandom(call, chaos, 'corrupt'));
+    }
+
     // Return malformed but parseable response
     if (typeof response === 'object' && response !== null) {
       return { ...response, _corrupted: true, _originalKeys: Object.keys(response) };
@@ -142,24 +536,155 @@ export class ChaosInjector {
   }
 
   /**
-   * Apply chaos to a tool call and return what was applied
+   * Random stream for work done on a call's response, derived from the same
+   * identity as its request decisions
+   */
+  private responseRandom(call: ChaosCall, chaos: ChaosApplied, purpose: string): () => number {
+    const rng = new SeededRandom(deriveSeed(this.seed, call.method, call.tool ?? '', chaos.callIndex ?? 0, purpose));
+    return () => rng.next();
+  }
+
+  /**
+   * Truncate a serialized message for the 'truncate' corruption mode
+   */
+  truncateMessage(line: string, call: ChaosCall, chaos: ChaosApplied): string {
+    return truncateLine(line, this.responseRandom(call, chaos, 'truncate'));
+  }
+
+  /**
+   * Whether the config rewrites the tool catalog
    */
-  applyChaos(toolName?: string): ChaosApplied {
-    const applied: ChaosApplied = { seed: this.seed };
+  hasDrift(): boolean {
+    return this.config.drift !== undefined;
+  }
 
-    const delay = this.getDelay(toolName);
+  /**
+   * Rewrite a tools/list result as the drifted server would advertise it
+   */
+  driftToolList(result: unknown, call: ChaosCall, chaos: ChaosApplied): unknown {
+    if (!this.config.drift) return result;
+    return driftToolList(result, this.config.drift, this.responseRandom(call, chaos, 'drift'));
+  }
+
+  /**
+   * Translate a call against the drifted catalog back to the target's real tool
+   */
+  translateToolCall(name: string, args: unknown): TranslatedCall {
+    if (!this.config.drift) {
+      return { name, args: (args ?? {}) as Record<string, unknown> };
+    }
+    return translateToolCall(name, args, this.config.drift);
+  }
+
+  /**
+   * Decide all chaos for a single request up front and return what was applied.
+   * The result travels with the request so its response gets exactly these faults.
+   */
+  applyChaos(call: ChaosCall): ChaosApplied {
+    // Phases count tool calls only
+    this.advancePhase();
+    if (call.method === 'tools/call') {
+      this.callCount++;
+      this.phaseCalls++;
+    }
+    const key = callKey(call);
+    const callIndex = (this.callCounts.get(key) ?? 0) + 1;
+    this.callCounts.set(key, callIndex);
+
+    // Every decision below draws from a stream owned by this logical call
+    this.rng = new SeededRandom(deriveSeed(this.seed, call.method, call.tool ?? '', callIndex));
+
+    const applied: ChaosApplied = { seed: this.seed, callIndex };
+    const phase = this.getCurrentPhase();
+    if (phase) {
+      applied.phase = phase.phase;
+    }
+    const matchedRule = this.getMatchedRule(call);
+    if (matchedRule) {
+      applied.matchedRule = matchedRule;
+    }
+
+    // A tool hidden from tools/list has disappeared from the server. Decided
+    // after the phase advances, so a phase that hides a tool can still end.
+    if (call.method === 'tools/call' && call.tool && this.getHiddenTools().includes(call.tool)) {
+      applied.errorInjected = true;
+      applied.hiddenTools = [call.tool];
+      return applied;
+    }
+
+    // A throttled call is turned away before anything else happens to it
+    const retryAfterMs = this.getRetryAfter(call);
+    if (retryAfterMs !== undefined) {
+      applied.throttled = true;
+      applied.retryAfterMs = retryAfterMs;
+      return applied;
+    }
+
+    const delay = this.getDelay(call);
     if (delay > 0) {
       applied.delayMs = delay;
     }
 
-    if (this.shouldFail(toolName)) {
+    // An injected error means the target never sees the call
+    if (this.shouldFail(call)) {
       applied.errorInjected = true;
+      if (this.matchesPattern(call)) {
+        applied.failPattern = this.getRule(call).failPattern!.type;
+      }
+      if (call.method === 'tools/call' && this.getRule(call).errorKind === 'tool') {
+        applied.errorKind = 'tool';
+      }
+      return applied;
     }
 
-    if (this.shouldCorruptResponse(toolName)) {
+    // A withheld response can't also be corrupted
+    const timeoutMs = this.getTimeout(call);
+    if (timeoutMs !== undefined) {
+      applied.timeoutMs = timeoutMs;
+      return applied;
+    }
+
+    const corruption = this.getCorruptionMode(call);
+    if (corruption) {
+      applied.responseCorrupted = true;
+      applied.corruption = corruption;
+    } else if (this.shouldCorruptResponse(call)) {
       applied.responseCorrupted = true;
     }
 
+    const wireFaults = this.getWireFaults(call);
+    if (wireFaults.length > 0) {
+      applied.wireFaults = wireFaults;
+    }
+
+    const payload = this.getAdversarialPayload(call);
+    if (payload) {
+      applied.adversarial = { payload: payload.id };
+      this.pendingPayloads.set(`${key}#${callIndex}`, {
+        text: payload.text,
+        position: this.getRule(call).adversarial!.position,
+      });
+    }
+
     return applied;
   }
 }
+
+/**
+ * Whether any fault was applied or a targeted rule matched (beyond recording the seed)
+ */
+export function hasChaos(applied: ChaosApplied | undefined): applied is ChaosApplied {
+  if (!applied) return false;
+  return (
+    applied.delayMs !== undefined ||
+    applied.errorInjected === true ||
+    applied.throttled === true ||
+    applied.responseCorrupted === true ||
+    applied.wireFaults !== undefined ||
+    applied.adversarial !== undefined ||
+    applied.timeoutMs !== undefined ||
+    applied.matchedRule !== undefined ||
+    applied.hiddenTools !== undefined ||
+    applied.drifted === true
+  );
+}
@@ -0,0 +1,172 @@
+import type { ArgCondition, MatchRule } from './types.js';
+import type { ChaosCall } from './injector.js';
+
+type PathSegment = { key: string } | { index: number } | { wildcard: true } | { descend: string };
+
+/**
+ * Parse a JSONPath-style expression into segments.
+ * Supports `$`, `.key`, `['key']`, `[0]`, `[*]`, `.*` and `..key`.
+ * A path without a leading `$` is treated as relative to the root.
+ * Throws on a path it can't read.
+ */
+export function parsePath(path: string): PathSegment[] {
+  const segments: PathSegment[] = [];
+  let rest = path.startsWith('$') ? path.slice(1) : `.${path}`;
+
+  while (rest.length > 0) {
+    let match: RegExpMatchArray | null;
+    if ((match = rest.match(/^\.\.([A-Za-z_$][\w$-]*)/))) {
+      segments.push({ descend: match[1] });
+    } else if ((match = rest.match(/^\.\*/)) || (match = rest.match(/^\[\*\]/))) {
+      segments.push({ wildcard: true });
+    } else if ((match = rest.match(/^\.([A-Za-z_$][\w$-]*)/))) {
+      segments.push({ key: match[1] });
+    } else if ((match = rest.match(/^\[(\d+)\]/))) {
+      segments.push({ index: parseInt(match[1], 10) });
+    } else if ((match = rest.match(/^\[(['"])(.*?)\1\]/))) {
+      segments.push({ key: match[2] });
+    } else {
+      throw new Error(`Invalid path "${path}" near "${rest}"`);
+    }
+    rest = rest.slice(match[0].length);
+  }
+
+  return segments;
+}
+
+/**
+ * Collect every value under `value` (inclusive) stored at the given key
+ */
+function descend(value: unknown, key: string, out: unknown[]): void {
+  if (typeof value !== 'object' || value === null) return;
+  if (!Array.isArray(value) && key in value) {
+    out.push((value as Record<string, unknown>)[key]);
+  }
+  for (const child of Object.values(value)) {
+    descend(child, key, out);
+  }
+}
+
+/**
+ * Select all values addressed by a path
+ */
+export function selectPath(root: unknown, path: string): unknown[] {
+  let current: unknown[] = [root];
+
+  for (const segment of parsePath(path)) {
+    const next: unknown[] = [];
+    for (const value of current) {
+      if (typeof value !== 'object' || value === null) continue;
+
+      if ('key' in segment) {
+        if (!Array.isArray(value) && segment.key in value) {
+          next.push((value as Record<string, unknown>)[segment.key]);
+        }
+      } else if ('index' in segment) {
+        if (Array.isArray(value) && segment.index < value.length) {
+          next.push(value[segment.index]);
+        }
+      } else if ('wildcard' in segment) {
+        next.push(...Object.values(value));
+      } else {
+        descend(value, segment.descend, next);
+      }
+    }
+    current = next;
+  }
+
+  return current;
+}
+
+/**
+ * Convert a glob to a regex. `*` and `?` stop at `/`, `**` crosses it.
+ * A glob without `/` is matched against the last path component only.
+ */
+function globToRegex(glob: string): RegExp {
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      source += '.*';
+      i++;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return glob.includes('/') ? new RegExp(`^${source}$`) : new RegExp(`(^|/)${source}$`);
+}
+
+/**
+ * Check one selected value against every operator in a condition
+ */
+function valueMatches(value: unknown, condition: ArgCondition): boolean {
+  if (condition.equals !== undefined && JSON.stringify(value) !== JSON.stringify(condition.equals)) {
+    return false;
+  }
+  if (condition.glob !== undefined && (typeof value !== 'string' || !globToRegex(condition.glob).test(value))) {
+    return false;
+  }
+  if (condition.regex !== undefined && (typeof value !== 'string' || !new RegExp(condition.regex).test(value))) {
+    return false;
+  }
+
+  const numeric = condition.gt !== undefined || condition.gte !== undefined ||
+    condition.lt !== undefined || condition.lte !== undefined;
+  if (numeric) {
+    if (typeof value !== 'number') return false;
+    if (condition.gt !== undefined && !(value > condition.gt)) return false;
+    if (condition.gte !== undefined && !(value >= condition.gte)) return false;
+    if (condition.lt !== undefined && !(value < condition.lt)) return false;
+    if (condition.lte !== undefined && !(value <= condition.lte)) return false;
+  }
+
+  return true;
+}
+
+/**
+ * A condition holds if any value selected by its path satisfies it
+ * (or, with `exists: false`, if the path selects nothing)
+ */
+export function conditionMatches(args: unknown, path: string, condition: ArgCondition): boolean {
+  const values = selectPath(args, path).filter((v) => v !== undefined);
+  if (condition.exists === false) {
+    return values.length === 0;
+  }
+  return values.some((value) => valueMatches(value, condition));
+}
+
+/**
+ * Find the first rule whose method, tool and argument conditions all match.
+ * Rules without a method apply to tools/call. Returns the rule's position
+ * so the caller can label it.
+ */
+export function findMatchingRule(
+  rules: MatchRule[] | undefined,
+  call: ChaosCall
+): { rule: MatchRule; index: number } | undefined {
+  if (!rules) return undefined;
+
+  for (let index = 0; index < rules.length; index++) {
+    const rule = rules[index];
+    if ((rule.method ?? 'tools/call') !== call.method) continue;
+    if (rule.tool !== undefined && rule.tool !== call.tool) continue;
+
+    const conditions = Object.entries(rule.match ?? {});
+    if (conditions.every(([path, condition]) => conditionMatches(call.args, path, condition))) {
+      return { rule, index };
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Label used to record which rule matched a call
+ */
+export function ruleLabel(rule: MatchRule, index: number): string {
+  return rule.name ?? `rules[${index}]`;
+}
@@ -0,0 +1,114 @@
+import type { NotificationRule } from './types.js';
+
+export interface InjectedNotification {
+  method: string;
+  params?: Record<string, unknown>;
+}
+
+type Emit = (notification: InjectedNotification, callCount: number) => void;
+
+/**
+ * Schedules unsolicited notifications from the chaos config and hands them to
+ * the proxy to write. Time triggers run on timers; call triggers are checked
+ * as tool calls arrive.
+ */
+export class NotificationInjector {
+  private rules: NotificationRule[];
+  private emit: Emit;
+  private timers: NodeJS.Timeout[] = [];
+  private fired: number[];
+  private callCount = 0;
+  private sequence = 0;
+
+  constructor(rules: NotificationRule[], emit: Emit) {
+    this.rules = rules;
+    this.emit = emit;
+    this.fired = rules.map(() => 0);
+  }
+
+  /**
+   * Arm the time-based triggers
+   */
+  start(): void {
+    this.rules.forEach((rule, index) => {
+      if (rule.atMs === undefined) return;
+
+      const timer = setTimeout(() => {
+        this.fire(index);
+        if (rule.everyMs) {
+          const interval = setInterval(() => {
+            if (!this.fire(index)) clearInterval(interval);
+          }, rule.everyMs);
+          interval.unref();
+          this.timers.push(interval);
+        }
+      }, rule.atMs);
+      timer.unref();
+      this.timers.push(timer);
+    });
+  }
+
+  /**
+   * Count a tool call and fire any call-based triggers it reaches
+   */
+  onToolCall(): void {
+    this.callCount++;
+
+    this.rules.forEach((rule, index) => {
+      if (rule.afterCalls === undefined) return;
+      const since = this.callCount - rule.afterCalls;
+      if (since === 0 || (rule.everyCalls && since > 0 && since % rule.everyCalls === 0)) {
+        this.fire(index);
+      }
+    });
+  }
+
+  stop(): void {
+    for (const timer of this.timers) {
+      clearTimeout(timer);
+    }
+    this.timers = [];
+  }
+
+  /**
+   * Emit one firing of a rule. Returns false once the rule is used up.
+   */
+  private fire(index: number): boolean {
+    const rule = this.rules[index];
+    if (rule.times !== undefined && this.fired[index] >= rule.times) {
+      return false;
+    }
+    this.fired[index]++;
+
+    for (let i = 0; i < (rule.count ?? 1); i++) {
+      this.emit(this.build(rule), this.callCount);
+    }
+    return true;
+  }
+
+  /**
+   * Build a notification, generating plausible params for the common methods
+   */
+  private build(rule: NotificationRule): InjectedNotification {
+    const n = ++this.sequence;
+    let params: Record<string, unknown> | undefined;
+
+    switch (rule.method) {
+      case 'notifications/resources/updated':
+        params = { uri: 'chaos://resource' };
+        break;
+      case 'notifications/message':
+        params = { level: 'info', logger: 'mcp-chaos', data: `Injected log message ${n}` };
+        break;
+      case 'notifications/progress':
+        // A token no request ever issued
+        params = { progressToken: `chaos-${n}`, progress: n, total: 100 };
+        break;
+    }
+
+    if (rule.params) {
+      params = { ...params, ...rule.params };
+    }
+    return params ? { method: rule.method, params } : { method: rule.method };
+  }
+}
@@ -0,0 +1,112 @@
+import type { ChaosConfig } from './types.js';
+
+export interface ChaosPreset {
+  description: string;
+  config: ChaosConfig;
+}
+
+export const CHAOS_PRESETS: Record<string, ChaosPreset> = {
+  'flaky-network': {
+    description: 'Occasional latency spikes, dropped connections and split frames',
+    config: {
+      global: {
+        delayMs: { p: 0.3, distribution: 'lognormal', median: 300, sigma: 1, max: 10000 },
+        failRate: 0.05,
+        errorCode: -32000,
+        errorMessage: 'Connection reset by peer',
+        wire: { splitFrame: 0.1 },
+      },
+    },
+  },
+  'slow-backend': {
+    description: 'Every call is slow, with a long tail',
+    config: {
+      global: {
+        delayMs: { p: 1, distribution: 'lognormal', median: 1500, sigma: 0.8, max: 30000 },
+      },
+    },
+  },
+  overloaded: {
+    description: 'Frequent rejections and heavy-tailed latency from a server at capacity',
+    config: {
+      global: {
+        delayMs: { p: 0.5, distribution: 'pareto', scale: 500, shape: 1.5, max: 20000 },
+        failRate: 0.3,
+        errorCode: -32000,
+        errorMessage: 'Server overloaded, try again later',
+      },
+    },
+  },
+  'total-outage': {
+    description: 'Every tool call fails',
+    config: {
+      global: {
+        failRate: 1,
+        errorCode: -32000,
+        errorMessage: 'Service unavailable',
+      },
+    },
+  },
+  'corrupt-data': {
+    description: 'Tool results arrive garbled, incomplete or mistyped',
+    config: {
+      global: {
+        corruption: { garbleText: 0.1, dropContent: 0.05, wrongTypes: 0.05, truncate: 0.02 },
+      },
+    },
+  },
+};
+
+const PRESET_PREFIX = 'preset:';
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Merge `override` into `base`: objects merge key by key, anything else
+ * (including arrays such as rules and phases) replaces the base value
+ */
+function deepMerge(base: unknown, override: unknown): unknown {
+  if (!isPlainObject(base) || !isPlainObject(override)) {
+    return override;
+  }
+  const out: Record<string, unknown> = { ...base };
+  for (const [key, value] of Object.entries(override)) {
+    out[key] = key in base ? deepMerge(base[key], value) : value;
+  }
+  return out;
+}
+
+/**
+ * Expand `extends` into a self-contained config. Presets apply in order and
+ * the config's own keys override them.
+ */
+export function resolvePresets(config: ChaosConfig): ChaosConfig {
+  const { extends: names, ...own } = config;
+  if (names === undefined) return config;
+
+  let merged: unknown = {};
+  for (const name of Array.isArray(names) ? names : [names]) {
+    const preset = CHAOS_PRESETS[name];
+    if (!preset) {
+      throw new Error(`Unknown chaos preset "${name}"`);
+    }
+    merged = deepMerge(merged, preset.config);
+  }
+  return deepMerge(merged, own) as ChaosConfig;
+}
+
+/**
+ * Whether an --inject value names a preset rather than a file
+ */
+export function isPresetReference(spec: string): boolean {
+  return spec.startsWith(PRESET_PREFIX);
+}
+
+/**
+ * Turn `preset:name` (or `preset:a,b`) into a config that extends those presets
+ */
+export function presetReference(spec: string): ChaosConfig {
+  return { extends: spec.slice(PRESET_PREFIX.length).split(',').map((name) => name.trim()) };
+}
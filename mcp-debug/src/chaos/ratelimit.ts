@@ -0,0 +1,34 @@
+import type { RateLimitRule } from './types.js';
+
+/**
+ * Token bucket holding up to `burst` tokens (default `requests`) and refilling
+ * at `requests` per `windowMs`. Each call takes one token; an empty bucket
+ * throttles the call until the next token is due.
+ */
+export class TokenBucket {
+  private tokens: number;
+  private updatedAt: number;
+
+  constructor(rule: RateLimitRule, now = Date.now()) {
+    this.tokens = rule.burst ?? rule.requests;
+    this.updatedAt = now;
+  }
+
+  /**
+   * Take a token for a call. Returns undefined if the call may proceed, or how
+   * many milliseconds until a token will be available.
+   */
+  take(rule: RateLimitRule, now = Date.now()): number | undefined {
+    const capacity = rule.burst ?? rule.requests;
+    const perMs = rule.requests / rule.windowMs;
+
+    this.tokens = Math.min(capacity, this.tokens + (now - this.updatedAt) * perMs);
+    this.updatedAt = now;
+
+    if (this.tokens >= 1) {
+      this.tokens -= 1;
+      return undefined;
+    }
+    return Math.ceil((1 - this.tokens) / perMs);
+  }
+}
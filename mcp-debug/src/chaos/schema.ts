@@ -0,0 +1,338 @@
+import { z } from 'zod';
+import type { ChaosConfig } from './types.js';
+import { CHAOS_PRESETS } from './presets.js';
+import { ADVERSARIAL_CORPUS, readPayloadFile } from './adversarial.js';
+import { parsePath } from './matcher.js';
+
+// Schemas are strict so unknown keys surface as issues; validateChaosConfig()
+// reports those as warnings and everything else as errors.
+
+const probability = z.number().min(0).max(1);
+
+const DISTRIBUTION_PARAMS = {
+  normal: ['mean', 'stddev'],
+  lognormal: ['median', 'sigma'],
+  pareto: ['scale', 'shape'],
+  exponential: ['mean'],
+} as const;
+
+const probabilisticValue = z.object({
+  p: probability,
+  value: z.number().nonnegative().optional(),
+  min: z.number().nonnegative().optional(),
+  max: z.number().nonnegative().optional(),
+  distribution: z.enum(['normal', 'lognormal', 'pareto', 'exponential']).optional(),
+  mean: z.number().optional(),
+  stddev: z.number().nonnegative().optional(),
+  median: z.number().positive().optional(),
+  sigma: z.number().nonnegative().optional(),
+  scale: z.number().positive().optional(),
+  shape: z.number().positive().optional(),
+}).strict().superRefine((value, ctx) => {
+  // A distribution without its parameters would never produce a value
+  for (const param of value.distribution ? DISTRIBUTION_PARAMS[value.distribution] : []) {
+    if (value[param] === undefined) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [param], message: `Required for a ${value.distribution} distribution` });
+    }
+  }
+});
+
+const duration = z.union([z.number().nonnegative(), probabilisticValue]);
+
+const count = z.number().int().positive();
+
+const failPattern = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('nth'), n: count }).strict(),
+  z.object({ type: z.literal('every'), n: count }).strict(),
+  z.object({ type: z.literal('after'), n: z.number().int().nonnegative() }).strict(),
+  z.object({ type: z.literal('burst'), start: count, length: count, every: count.optional() }).strict(),
+  z.object({ type: z.literal('flap'), up: z.number().int().nonnegative(), down: count }).strict(),
+]);
+
+const corruptionMode = z.enum(['truncate', 'dropContent', 'garbleText', 'wrongTypes', 'flipIsError', 'emptyResult']);
+
+const wireFault = z.enum(['splitFrame', 'garbageLine', 'duplicate', 'reorder', 'wrongId']);
+
+const adversarialRule = z.object({
+  rate: probability,
+  corpus: z.array(z.enum(Object.keys(ADVERSARIAL_CORPUS) as [string, ...string[]])).optional(),
+  payloads: z.array(z.string()).optional(),
+  file: z.string().superRefine((path, ctx) => {
+    try {
+      readPayloadFile(path);
+    } catch (err) {
+      const message = (err as NodeJS.ErrnoException).code === 'ENOENT' ? 'Payload file not found' : (err as Error).message;
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message });
+    }
+  }).optional(),
+  position: z.enum(['append', 'prepend', 'replace', 'random']).optional(),
+}).strict();
+
+const rateLimitRule = z.object({
+  requests: count,
+  windowMs: z.number().positive(),
+  burst: count.optional(),
+  scope: z.enum(['tool', 'global']).optional(),
+}).strict();
+
+const ruleShape = {
+  delayMs: duration.optional(),
+  failRate: probability.optional(),
+  failPattern: failPattern.optional(),
+  errorCode: z.number().int().optional(),
+  errorMessage: z.string().optional(),
+  errorKind: z.enum(['protocol', 'tool']).optional(),
+  corruptResponse: z.boolean().optional(),
+  corruption: z.record(corruptionMode, probability).optional(),
+  timeoutMs: duration.optional(),
+  timeoutMode: z.enum(['error', 'hang']).optional(),
+  hideTools: z.array(z.string()).optional(),
+  wire: z.record(wireFault, probability).optional(),
+  adversarial: adversarialRule.optional(),
+  rateLimit: rateLimitRule.optional(),
+};
+
+const chaosRule = z.object(ruleShape).strict();
+
+const argCondition = z.object({
+  equals: z.unknown().optional(),
+  glob: z.string().optional(),
+  regex: z.string().refine((source) => {
+    try {
+      new RegExp(source);
+      return true;
+    } catch {
+      return false;
+    }
+  }, 'Invalid regular expression').optional(),
+  gt: z.number().optional(),
+  gte: z.number().optional(),
+  lt: z.number().optional(),
+  lte: z.number().optional(),
+  exists: z.boolean().optional(),
+}).strict();
+
+const matchRule = z.object({
+  ...ruleShape,
+  name: z.string().optional(),
+  method: z.string().optional(),
+  tool: z.string().optional(),
+  match: z.record(argCondition).superRefine((match, ctx) => {
+    // A path that doesn't parse would otherwise only fail once a call is matched
+    for (const path of Object.keys(match)) {
+      try {
+        parsePath(path);
+      } catch (err) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [path], message: (err as Error).message });
+      }
+    }
+  }).optional(),
+}).strict();
+
+const ruleSet = {
+  global: chaosRule.optional(),
+  tools: z.record(chaosRule).optional(),
+  methods: z.record(chaosRule).optional(),
+  rules: z.array(matchRule).optional(),
+};
+
+const chaosPhase = z.object({
+  ...ruleSet,
+  name: z.string().optional(),
+  calls: count.optional(),
+  durationMs: z.number().positive().optional(),
+}).strict();
+
+const driftConfig = z.object({
+  renameTools: z.record(z.string()).optional(),
+  renameParams: z.record(z.record(z.string())).optional(),
+  addRequired: z.record(z.record(z.unknown())).optional(),
+  descriptions: z.record(z.string()).optional(),
+  reorder: z.enum(['reverse', 'shuffle']).optional(),
+}).strict();
+
+const notificationRule = z.object({
+  method: z.string(),
+  params: z.record(z.unknown()).optional(),
+  atMs: z.number().nonnegative().optional(),
+  everyMs: z.number().positive().optional(),
+  afterCalls: count.optional(),
+  everyCalls: count.optional(),
+  count: count.optional(),
+  times: count.optional(),
+}).strict();
+
+const crashConfig = z.object({
+  afterCalls: count.optional(),
+  atMs: z.union([
+    z.number().nonnegative(),
+    z.object({ min: z.number().nonnegative(), max: z.number().nonnegative() }).strict(),
+  ]).optional(),
+  signal: z.string().regex(/^SIG[A-Z0-9]+$/, 'Expected a signal name like SIGKILL').optional(),
+  maxCrashes: count.optional(),
+  restart: z.boolean().optional(),
+  restartDelayMs: z.number().nonnegative().optional(),
+  errorPending: z.boolean().optional(),
+}).strict();
+
+const presetName = z.string().refine((name) => name in CHAOS_PRESETS, (name) => ({
+  message: `Unknown preset "${name}" (available: ${Object.keys(CHAOS_PRESETS).join(', ')})`,
+}));
+
+export const chaosConfigSchema = z.object({
+  ...ruleSet,
+  extends: z.union([presetName, z.array(presetName)]).optional(),
+  seed: z.number().int().optional(),
+  phases: z.array(chaosPhase).optional(),
+  drift: driftConfig.optional(),
+  notifications: z.array(notificationRule).optional(),
+  crash: crashConfig.optional(),
+}).strict();
+
+export interface ChaosIssue {
+  path: string;
+  message: string;
+}
+
+export interface ChaosValidationResult {
+  config?: ChaosConfig; // Set when there are no errors
+  errors: ChaosIssue[];
+  warnings: ChaosIssue[];
+}
+
+/**
+ * Render an issue path like `tools.read_file.failRate` or `rules[0].match`
+ */
+function formatPath(path: Array<string | number>): string {
+  return path.reduce<string>((out, segment) => {
+    if (typeof segment === 'number') return `${out}[${segment}]`;
+    return out ? `${out}.${segment}` : segment;
+  }, '') || '(root)';
+}
+
+/**
+ * Every option name the schema knows, for "did you mean" hints
+ */
+const KNOWN_KEYS = new Set([
+  ...Object.keys(chaosConfigSchema.shape),
+  ...Object.keys(matchRule.shape),
+  ...Object.keys(chaosPhase.shape),
+  ...Object.keys(probabilisticValue.innerType().shape),
+  ...Object.keys(argCondition.shape),
+  ...Object.keys(driftConfig.shape),
+  ...Object.keys(notificationRule.shape),
+  ...Object.keys(crashConfig.shape),
+  ...Object.keys(adversarialRule.shape),
+  ...Object.keys(rateLimitRule.shape),
+]);
+
+/**
+ * Suggest a known key for a misspelled one (case slip or a typo or two)
+ */
+function suggestKey(key: string): string | undefined {
+  const lower = key.toLowerCase();
+  const maxDistance = Math.min(2, Math.floor(key.length / 3));
+  let best: { key: string; distance: number } | undefined;
+  for (const known of KNOWN_KEYS) {
+    const distance = known.toLowerCase() === lower ? 0 : editDistance(lower, known.toLowerCase());
+    if (distance <= maxDistance && (!best || distance < best.distance)) {
+      best = { key: known, distance };
+    }
+  }
+  return best?.key;
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Validate a parsed chaos config. Unknown keys are warnings (they are ignored
+ * at runtime); anything else that doesn't fit the schema is an error.
+ */
+export function validateChaosConfig(input: unknown): ChaosValidationResult {
+  const errors: ChaosIssue[] = [];
+  const warnings: ChaosIssue[] = [];
+
+  const parsed = chaosConfigSchema.safeParse(input);
+  if (!parsed.success) {
+    for (const issue of parsed.error.issues) {
+      if (issue.code === 'unrecognized_keys') {
+        for (const key of issue.keys) {
+          const suggestion = suggestKey(key);
+          warnings.push({
+            path: formatPath([...issue.path, key]),
+            message: suggestion ? `Unknown key (did you mean "${suggestion}"?)` : 'Unknown key',
+          });
+        }
+      } else {
+        errors.push({ path: formatPath(issue.path), message: issue.message });
+      }
+    }
+  }
+
+  return {
+    config: errors.length === 0 ? (input as ChaosConfig) : undefined,
+    errors,
+    warnings,
+  };
+}
+
+export interface ToolReference {
+  name: string;
+  path: string;
+}
+
+/**
+ * Tool names a config refers to, each with the path that mentions it
+ */
+export function referencedTools(config: ChaosConfig): ToolReference[] {
+  const refs: ToolReference[] = [];
+
+  const addRuleSet = (set: Pick<ChaosConfig, 'tools' | 'methods' | 'rules'>, prefix: string) => {
+    for (const name of Object.keys(set.tools ?? {})) {
+      refs.push({ name, path: `${prefix}tools.${name}` });
+    }
+    set.rules?.forEach((rule, i) => {
+      if (rule.tool) refs.push({ name: rule.tool, path: `${prefix}rules[${i}].tool` });
+    });
+    for (const [method, rule] of Object.entries(set.methods ?? {})) {
+      rule.hideTools?.forEach((name, i) => refs.push({ name, path: `${prefix}methods.${method}.hideTools[${i}]` }));
+    }
+  };
+
+  addRuleSet(config, '');
+  config.phases?.forEach((phase, i) => addRuleSet(phase, `phases[${i}].`));
+
+  const { drift } = config;
+  if (drift) {
+    for (const key of ['renameTools', 'renameParams', 'addRequired', 'descriptions'] as const) {
+      for (const name of Object.keys(drift[key] ?? {})) {
+        refs.push({ name, path: `drift.${key}.${name}` });
+      }
+    }
+  }
+
+  return refs;
+}
+
+/**
+ * Warnings for tools the config mentions that the target doesn't offer
+ */
+export function unknownToolWarnings(config: ChaosConfig, available: string[]): ChaosIssue[] {
+  return referencedTools(config)
+    .filter(({ name }) => !available.includes(name))
+    .map(({ name, path }) => ({ path, message: `Tool "${name}" is not offered by the target` }));
+}
@@ -1,7 +1,20 @@
 // Re-export types from tracer for consistency
 export type {
   ChaosConfig,
+  ChaosPhase,
   ChaosRule,
   ChaosApplied,
   ProbabilisticValue,
+  Distribution,
+  CorruptionMode,
+  WireFault,
+  AdversarialRule,
+  RateLimitRule,
+  AdversarialInjection,
+  FailPattern,
+  MatchRule,
+  ArgCondition,
+  DriftConfig,
+  NotificationRule,
+  CrashConfig,
 } from '../tracer/types.js';
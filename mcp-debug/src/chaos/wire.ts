@@ -0,0 +1,113 @@
+import type { WireFault } from './types.js';
+
+// Evaluation order when several faults are configured; unlike corruption
+// modes, any number of them can hit the same response
+export const WIRE_FAULTS: WireFault[] = ['reorder', 'wrongId', 'garbageLine', 'duplicate', 'splitFrame'];
+
+// How long a response held back for reordering waits for another line to overtake it
+const REORDER_WINDOW_MS = 100;
+
+// Pause between the pieces of a split frame, long enough for them to arrive as separate reads
+const SPLIT_DELAY_MS = 5;
+
+// Non-JSON-RPC lines a misbehaving server might print on stdout
+const GARBAGE_LINES = [
+  'Server starting on stdio...',
+  '\x1b[33mWARN\x1b[0m deprecated option "--legacy" ignored',
+  '{"jsonrpc": "2.0", "id": ',
+  'null',
+  'Content-Length: 128',
+  '\u0000\u0001\u0002\uFFFD\uFFFD',
+];
+
+/**
+ * Give a response an id that matches no pending request
+ */
+export function withWrongId(line: string): string {
+  try {
+    const message = JSON.parse(line);
+    if (typeof message.id === 'number') {
+      message.id += 1_000_000;
+    } else if (typeof message.id === 'string') {
+      message.id = `${message.id}-unknown`;
+    } else {
+      return line;
+    }
+    return JSON.stringify(message);
+  } catch {
+    return line;
+  }
+}
+
+/**
+ * Writes newline-delimited messages to the agent, applying wire faults.
+ * Writes are serialized so a split frame is never interleaved with other lines.
+ */
+export class WireWriter {
+  private out: NodeJS.WritableStream;
+  private queue: Promise<void> = Promise.resolve();
+  private held?: { line: string; faults: WireFault[] };
+  private heldTimer?: NodeJS.Timeout;
+  private garbageIndex = 0;
+
+  constructor(out: NodeJS.WritableStream = process.stdout) {
+    this.out = out;
+  }
+
+  /**
+   * Write one message. A 'reorder' message is held back until the next write
+   * overtakes it (or the reorder window passes).
+   */
+  write(line: string, faults: WireFault[] = []): void {
+    if (faults.includes('reorder') && !this.held) {
+      this.held = { line, faults: faults.filter((fault) => fault !== 'reorder') };
+      this.heldTimer = setTimeout(() => this.release(), REORDER_WINDOW_MS);
+      return;
+    }
+
+    this.enqueue(line, faults);
+    this.release();
+  }
+
+  private release(): void {
+    if (!this.held) return;
+    clearTimeout(this.heldTimer);
+    const { line, faults } = this.held;
+    this.held = undefined;
+    this.enqueue(line, faults);
+  }
+
+  private enqueue(line: string, faults: WireFault[]): void {
+    this.queue = this.queue.then(() => this.emit(line, faults));
+  }
+
+  private async emit(line: string, faults: WireFault[]): Promise<void> {
+    const message = faults.includes('wrongId') ? withWrongId(line) : line;
+
+    if (faults.includes('garbageLine')) {
+      this.out.write(GARBAGE_LINES[this.garbageIndex++ % GARBAGE_LINES.length] + '\n');
+    }
+
+    const copies = faults.includes('duplicate') ? 2 : 1;
+    for (let i = 0; i < copies; i++) {
+      if (faults.includes('splitFrame')) {
+        await this.writeSplit(message + '\n');
+      } else {
+        this.out.write(message + '\n');
+      }
+    }
+  }
+
+  /**
+   * Write a frame in three pieces with pauses in between
+   */
+  private async writeSplit(frame: string): Promise<void> {
+    const cuts = [0, Math.floor(frame.length / 3), Math.floor((frame.length * 2) / 3), frame.length];
+    for (let i = 0; i < 3; i++) {
+      if (i > 0) {
+        await new Promise((resolve) => setTimeout(resolve, SPLIT_DELAY_MS));
+      }
+      this.out.write(frame.slice(cuts[i], cuts[i + 1]));
+    }
+  }
+}
@@ -4,6 +4,7 @@ import { Command } from 'commander';
 import { proxyCommand } from './commands/proxy.js';
 import { stressCommand } from './commands/stress.js';
 import { diffCommand } from './commands/diff.js';
+import { chaosValidateCommand, chaosPresetsCommand } from './commands/chaos.js';
 import { startServer } from './server/index.js';
 
 const program = new Command();
@@ -16,12 +17,17 @@ program
 program
   .command('proxy')
   .description('Forward MCP traffic and record to database (auto-visible in UI)')
-  .option('-t, --target <command>', 'Target MCP server command to proxy')
+  .option('-t, --target <command>', 'Target MCP server command, or http(s):// URL, to proxy')
   .option('-a, --agent <id>', 'Agent ID to use (uses agent\'s target and chaos config)')
   .option('-p, --project <name>', 'Project name (auto-creates if needed, use with --name)')
   .option('-n, --name <name>', 'Agent name (auto-creates if needed, use with --project)')
   .option('--trace <path>', 'Optional path to also save trace as JSONL file')
-  .option('--inject <path>', 'Path to chaos config JSON for fault injection')
+  .option('--inject <path>', 'Path to chaos config JSON, or preset:<name> for a built-in preset')
+  .option('--seed <number>', 'Chaos seed, overriding the config (replay a recorded run)')
+  .option('--listen <port>', 'Serve clients over Streamable HTTP on this port instead of stdio; each session is its own run')
+  .option('--backends <path>', 'JSON file of backends to front as one server, each tool prefixed by its backend')
+  .option('--env <KEY=VALUE...>', 'Environment variables for the target command')
+  .option('--cwd <dir>', 'Working directory for the target command')
   .action(proxyCommand);
 
 program
@@ -31,6 +37,8 @@ program
   .option('-o, --output <path>', 'Path to save stress test report', './reports/stress.md')
   .option('--trace <path>', 'Path to save trace of stress test session')
   .option('--debug', 'Enable debug logging')
+  .option('--env <KEY=VALUE...>', 'Environment variables for the target command')
+  .option('--cwd <dir>', 'Working directory for the target command')
   .action(stressCommand);
 
 program
@@ -41,6 +49,24 @@ program
   .option('-o, --output <path>', 'Path to save diff report', './reports/diff.md')
   .action(diffCommand);
 
+const chaos = program
+  .command('chaos')
+  .description('Work with chaos configs');
+
+chaos
+  .command('validate <file>')
+  .description('Check a chaos config for errors, unknown keys and unknown tools')
+  .option('-t, --target <command>', 'Target MCP server command to check tool names against')
+  .option('--env <KEY=VALUE...>', 'Environment variables for the target command')
+  .option('--cwd <dir>', 'Working directory for the target command')
+  .option('--strict', 'Treat warnings as errors')
+  .action(chaosValidateCommand);
+
+chaos
+  .command('presets [name]')
+  .description('List built-in chaos presets, or print one preset\'s config')
+  .action(chaosPresetsCommand);
+
 program
   .command('serve')
   .description('Start the mcp-debug web server with UI and API')
@@ -0,0 +1,112 @@
+import { readFileSync } from 'fs';
+import { dirname, resolve } from 'path';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+import { logger } from '../utils/logger.js';
+import { isRemoteTarget, parseTargetSpec, targetEnv, withTargetOptions, type TargetSpec } from '../transport/spec.js';
+import { targetTransport } from '../transport/target.js';
+import { validateChaosConfig, unknownToolWarnings } from '../chaos/schema.js';
+import { CHAOS_PRESETS } from '../chaos/presets.js';
+import { resolvePayloadFiles } from '../chaos/adversarial.js';
+
+interface ValidateOptions {
+  target?: string;
+  strict?: boolean;
+  env?: string[];
+  cwd?: string;
+}
+
+/**
+ * Start or connect to the target and list the names of the tools it offers.
+ * URL targets go through the proxy's own remote transport.
+ */
+async function listTargetTools(spec: TargetSpec): Promise<string[]> {
+  const transport = isRemoteTarget(spec.command)
+    ? targetTransport(spec)
+    : new StdioClientTransport({
+        command: spec.command,
+        args: spec.args,
+        env: targetEnv(spec),
+        cwd: spec.cwd,
+        stderr: 'ignore',
+      });
+  const client = new Client({ name: 'mcp-debug-validate', version: '0.1.0' });
+
+  // Report why a remote target couldn't connect, not just that it closed
+  let failure: Error | undefined;
+  transport.onerror = (err) => {
+    failure = err;
+  };
+  try {
+    await client.connect(transport);
+  } catch (err) {
+    throw failure ?? err;
+  }
+  try {
+    const names: string[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await client.listTools(cursor ? { cursor } : undefined);
+      names.push(...page.tools.map((tool) => tool.name));
+      cursor = page.nextCursor;
+    } while (cursor);
+    return names;
+  } finally {
+    await client.close();
+  }
+}
+
+export async function chaosValidateCommand(file: string, options: ValidateOptions): Promise<void> {
+  const { target, strict } = options;
+
+  let input: unknown;
+  try {
+    input = resolvePayloadFiles(JSON.parse(readFileSync(file, 'utf-8')), dirname(resolve(file)));
+  } catch (err) {
+    logger.error('Failed to load chaos config', { path: file, error: String(err) });
+    process.exit(1);
+  }
+
+  const { config, errors, warnings } = validateChaosConfig(input);
+
+  // Tool names can only be checked against a live target
+  if (config && target) {
+    try {
+      const spec = withTargetOptions(parseTargetSpec(target), options);
+      warnings.push(...unknownToolWarnings(config, await listTargetTools(spec)));
+    } catch (err) {
+      logger.error('Failed to list target tools', { target, error: String(err) });
+      process.exit(1);
+    }
+  }
+
+  for (const { path, message } of errors) {
+    console.log(`error    ${path}: ${message}`);
+  }
+  for (const { path, message } of warnings) {
+    console.log(`warning  ${path}: ${message}`);
+  }
+  console.log(`${file}: ${errors.length} error(s), ${warnings.length} warning(s)`);
+
+  if (errors.length > 0 || (strict && warnings.length > 0)) {
+    process.exit(1);
+  }
+}
+
+export function chaosPresetsCommand(name: string | undefined): void {
+  // With a name, print that preset's config so it can be copied and tweaked
+  if (name) {
+    const preset = CHAOS_PRESETS[name];
+    if (!preset) {
+      logger.error('Unknown chaos preset', { name, available: Object.keys(CHAOS_PRESETS) });
+      process.exit(1);
+    }
+    console.log(JSON.stringify(preset.config, null, 2));
+    return;
+  }
+
+  const width = Math.max(...Object.keys(CHAOS_PRESETS).map((preset) => preset.length));
+  for (const [preset, { description }] of Object.entries(CHAOS_PRESETS)) {
+    console.log(`${preset.padEnd(width)}  ${description}`);
+  }
+}
@@ -1,12 +1,26 @@
-import { spawn } from 'child_process';
 import { readFileSync } from 'fs';
-import { createInterface } from 'readline';
-import { TraceRecorder } from '../tracer/recorder.js';
-import { ChaosInjector } from '../chaos/injector.js';
+import type { Server } from 'http';
+import { dirname, extname, resolve } from 'path';
+import { validateChaosConfig } from '../chaos/schema.js';
+import { isPresetReference, presetReference, resolvePresets } from '../chaos/presets.js';
+import { resolvePayloadFiles } from '../chaos/adversarial.js';
 import { logger } from '../utils/logger.js';
+import {
+  formatTargetSpec,
+  isRemoteTarget,
+  parseTargetSpec,
+  targetSpecProblems,
+  withTargetOptions,
+  type TargetSpec,
+} from '../transport/spec.js';
+import { MCP_PATH, serveHttpClients, stdioClient } from '../transport/client.js';
+import { runSession, type ProxySession, type SessionSettings } from '../proxy/session.js';
+import { runAggregate, type BackendSettings } from '../proxy/aggregator.js';
+import { loadBackends } from '../proxy/backends.js';
+import { TraceRecorder } from '../tracer/recorder.js';
 import { initDatabase } from '../server/db/schema.js';
-import { RunQueries } from '../server/db/queries.js';
-import type { ChaosConfig, ChaosApplied } from '../chaos/types.js';
+import { RunQueries, agentTargetSpec } from '../server/db/queries.js';
+import type { ChaosConfig } from '../chaos/types.js';
 
 interface ProxyOptions {
   target?: string;
@@ -15,59 +29,48 @@ interface ProxyOptions {
   name?: string;
   trace?: string;
   inject?: string;
-}
-
-/**
- * Parse a command string into command and args
- * Handles quoted strings properly
- */
-function parseCommand(target: string): { cmd: string; args: string[] } {
-  const parts: string[] = [];
-  let current = '';
-  let inQuote = false;
-  let quoteChar = '';
-
-  for (let i = 0; i < target.length; i++) {
-    const char = target[i];
-
-    if (inQuote) {
-      if (char === quoteChar) {
-        inQuote = false;
-      } else {
-        current += char;
-      }
-    } else if (char === '"' || char === "'") {
-      inQuote = true;
-      quoteChar = char;
-    } else if (char === ' ' || char === '\t') {
-      if (current) {
-        parts.push(current);
-        current = '';
-      }
-    } else {
-      current += char;
-    }
-  }
-
-  if (current) {
-    parts.push(current);
-  }
-
-  const [cmd, ...args] = parts;
-  return { cmd, args };
+  seed?: string;
+  listen?: string;
+  backends?: string;
+  env?: string[];
+  cwd?: string;
 }
 
 export async function proxyCommand(options: ProxyOptions): Promise<void> {
-  const { agent: agentId, project: projectName, name: agentName, trace, inject } = options;
-  let { target } = options;
+  const { agent: agentId, project: projectName, name: agentName, target, trace, inject, seed, listen, backends } = options;
 
   // Initialize database for recording
   const db = initDatabase();
   const dbQueries = new RunQueries(db);
 
+  if (backends) {
+    if (target || agentId) {
+      logger.error('--backends replaces --target and --agent');
+      process.exit(1);
+    }
+    // Runs aren't tied to an agent, and each backend's target is set in the file
+    if (projectName || agentName || options.env?.length || options.cwd) {
+      logger.error('--project, --name, --env and --cwd do not apply with --backends; set env and cwd per backend in the file');
+      process.exit(1);
+    }
+    aggregateCommand(backends, dbQueries, options);
+    return;
+  }
+
+  // --env and --cwd apply to whichever spec is used, stored or given
+  const targetOptions = (base: TargetSpec) => {
+    try {
+      return withTargetOptions(base, options);
+    } catch (err) {
+      logger.error('Invalid --env', { error: err instanceof Error ? err.message : String(err) });
+      process.exit(1);
+    }
+  };
+
   // If agent ID provided, look it up and use its config
   let agentDbId: string | undefined;
   let chaosConfig: ChaosConfig | undefined;
+  let spec: TargetSpec | undefined;
 
   if (agentId) {
     // Look up existing agent by ID
@@ -76,7 +79,7 @@ export async function proxyCommand(options: ProxyOptions): Promise<void> {
       logger.error('Agent not found', { agentId });
       process.exit(1);
     }
-    target = agent.target;
+    spec = agentTargetSpec(agent);
     agentDbId = agent.id;
     if (agent.chaos_profile) {
       chaosConfig = JSON.parse(agent.chaos_profile);
@@ -92,12 +95,11 @@ export async function proxyCommand(options: ProxyOptions): Promise<void> {
 
     let agent = dbQueries.getAgentByName(project.id, agentName);
     if (!agent) {
-      agent = dbQueries.createAgent(project.id, agentName, target);
+      agent = dbQueries.createAgent(project.id, agentName, targetOptions(parseTargetSpec(target)));
       logger.info('Created agent', { name: agentName, id: agent.id });
-    } else {
-      // Use existing agent's target if not overridden
-      target = agent.target;
     }
+    // An existing agent keeps its stored target
+    spec = agentTargetSpec(agent);
     agentDbId = agent.id;
     if (agent.chaos_profile) {
       chaosConfig = JSON.parse(agent.chaos_profile);
@@ -105,131 +107,226 @@ export async function proxyCommand(options: ProxyOptions): Promise<void> {
     logger.info('Using agent', { project: projectName, name: agentName, id: agent.id });
   }
 
-  if (!target) {
-    logger.error('Either --target, --agent, or (--project + --name + --target) is required');
-    process.exit(1);
+  if (!spec && target) {
+    spec = parseTargetSpec(target);
   }
-
-  // Parse target into command and args
-  const { cmd: targetCmd, args: targetArgs } = parseCommand(target);
-
-  if (!targetCmd) {
-    logger.error('No command specified in target');
+  if (!spec) {
+    logger.error('Either --target, --agent, or (--project + --name + --target) is required');
     process.exit(1);
   }
+  spec = checkTargetSpec(targetOptions(spec));
 
   // Load chaos config from file if provided (overrides agent config)
   if (inject) {
-    try {
-      chaosConfig = JSON.parse(readFileSync(inject, 'utf-8'));
-      logger.info('Loaded chaos config', { path: inject });
-    } catch (err) {
-      logger.error('Failed to load chaos config', { path: inject, error: err });
-      process.exit(1);
-    }
+    chaosConfig = loadChaosConfig(inject);
+  }
+  if (chaosConfig) {
+    chaosConfig = prepareChaosConfig(chaosConfig, seed);
   }
 
-  // Initialize recorder with database (file trace is now optional)
-  const recorder = new TraceRecorder(target, targetCmd, targetArgs, trace || null, chaosConfig, dbQueries, agentDbId);
-  const injector = chaosConfig ? new ChaosInjector(chaosConfig) : undefined;
-
-  logger.info('Run created', { runId: recorder.getRunId() });
+  const settings: SessionSettings = {
+    target: formatTargetSpec(spec),
+    spec,
+    trace,
+    inject,
+    chaosConfig,
+    agentDbId,
+    dbQueries,
+  };
 
-  logger.info('Starting target MCP server', { cmd: targetCmd, args: targetArgs });
+  if (listen === undefined) {
+    const session = runSession(settings, stdioClient(), (code) => process.exit(code));
+    process.on('SIGINT', () => session.end(0));
+    process.on('SIGTERM', () => session.end(0));
+    return;
+  }
 
-  // Spawn target MCP server without shell
-  const targetProcess = spawn(targetCmd, targetArgs, {
-    stdio: ['pipe', 'pipe', 'pipe'],
+  const port = parseListenPort(listen);
+
+  // Each client session gets its own target, run and (numbered) trace file
+  const sessions = new Set<ProxySession>();
+  let sessionCount = 0;
+  const server = serveHttpClients(port, (channel) => {
+    sessionCount++;
+    const session = runSession(
+      { ...settings, trace: trace && numberedPath(trace, sessionCount) },
+      channel,
+      () => {
+        sessions.delete(session);
+        channel.close();
+      }
+    );
+    sessions.add(session);
   });
+  exitOnListenError(server, port);
+  logger.info('Listening for MCP clients', { url: `http://localhost:${port}${MCP_PATH}` });
+  shutdownOnSignal(sessions, server);
+}
 
-  // Handle spawn errors
-  targetProcess.on('error', (err) => {
-    logger.error('Failed to spawn target process', { error: err.message });
+/**
+ * Front every backend in a --backends file as one server. A run covers one
+ * client session across all backends; --inject is the chaos for backends
+ * that set none of their own.
+ */
+function aggregateCommand(path: string, dbQueries: RunQueries, options: ProxyOptions): void {
+  const { trace, inject, seed, listen } = options;
+
+  let entries;
+  try {
+    entries = loadBackends(path);
+  } catch (err) {
+    logger.error('Invalid backends file', { path, error: err instanceof Error ? err.message : String(err) });
     process.exit(1);
-  });
-
-  logger.info('Started target MCP server', { pid: targetProcess.pid });
+  }
 
-  // Handle target stderr (log it)
-  targetProcess.stderr?.on('data', (data: Buffer) => {
-    logger.debug(`[target stderr] ${data.toString().trim()}`);
+  // Chaos file paths, payload files in inline configs and working directories are relative to the backends file
+  const backends: BackendSettings[] = entries.map(({ name, target, prefix, chaos }) => {
+    const chaosPath = typeof chaos === 'string' && !isPresetReference(chaos) ? resolve(dirname(path), chaos) : chaos;
+    const source = chaosPath ?? inject;
+    const chaosConfig = typeof source === 'string'
+      ? loadChaosConfig(source)
+      : source && resolvePayloadFiles(source as ChaosConfig, dirname(path));
+    const spec = checkTargetSpec(target.cwd ? { ...target, cwd: resolve(dirname(path), target.cwd) } : target, name);
+    return {
+      name,
+      prefix,
+      settings: {
+        target: formatTargetSpec(spec),
+        spec,
+        inject: typeof source === 'string' ? source : undefined,
+        chaosConfig: chaosConfig && prepareChaosConfig(chaosConfig, seed, name),
+        dbQueries,
+      },
+    };
   });
+  logger.info('Aggregating backends', { backends: backends.map(({ name, prefix }) => ({ name, prefix })) });
 
-  // Forward stdin to target, intercepting requests
-  const stdinReader = createInterface({ input: process.stdin });
-
-  stdinReader.on('line', async (line: string) => {
-    try {
-      const message = JSON.parse(line);
+  const startRun = (tracePath: string | undefined) => {
+    const recorder = new TraceRecorder(path, path, [], tracePath || null, undefined, dbQueries);
+    logger.info('Run created', { runId: recorder.getRunId() });
+    return recorder;
+  };
 
-      // Record the request
-      if (message.method) {
-        recorder.recordRpcRequest(message.id, message.method, message.params);
-      }
+  if (listen === undefined) {
+    const session = runAggregate(backends, startRun(trace), stdioClient(), (code) => process.exit(code));
+    process.on('SIGINT', () => session.end(0));
+    process.on('SIGTERM', () => session.end(0));
+    return;
+  }
 
-      // Apply chaos to request if configured
-      if (injector && message.method === 'tools/call') {
-        const toolName = message.params?.name;
-        const delay = injector.getDelay(toolName);
-        if (delay > 0) {
-          logger.info('Injecting delay', { toolName, delay });
-          await new Promise((resolve) => setTimeout(resolve, delay));
-        }
-      }
+  const port = parseListenPort(listen);
+  const sessions = new Set<ProxySession>();
+  let sessionCount = 0;
+  const server = serveHttpClients(port, (channel) => {
+    sessionCount++;
+    const session = runAggregate(backends, startRun(trace && numberedPath(trace, sessionCount)), channel, () => {
+      sessions.delete(session);
+      channel.close();
+    });
+    sessions.add(session);
+  });
+  exitOnListenError(server, port);
+  logger.info('Listening for MCP clients', { url: `http://localhost:${port}${MCP_PATH}` });
+  shutdownOnSignal(sessions, server);
+}
 
-      // Forward to target
-      targetProcess.stdin?.write(line + '\n');
-    } catch {
-      // Not JSON, forward as-is
-      targetProcess.stdin?.write(line + '\n');
+/**
+ * Refuse a spec that can't be started, before anything is recorded
+ */
+function checkTargetSpec(spec: TargetSpec, backend?: string): TargetSpec {
+  const problems = targetSpecProblems(spec);
+  if (problems.length > 0) {
+    for (const problem of problems) {
+      logger.error('Invalid target', { ...(backend && { backend }), problem });
     }
-  });
+    process.exit(1);
+  }
+  if (isRemoteTarget(spec.command) && (spec.env || spec.cwd)) {
+    logger.warn('env and cwd do not apply to a remote target', { ...(backend && { backend }), target: spec.command });
+  }
+  return spec;
+}
 
-  // Forward target stdout to our stdout, intercepting responses
-  const targetReader = createInterface({ input: targetProcess.stdout! });
+/**
+ * Read a chaos config file or preset:<name> reference
+ */
+function loadChaosConfig(inject: string): ChaosConfig {
+  try {
+    const config = isPresetReference(inject)
+      ? presetReference(inject)
+      : resolvePayloadFiles(JSON.parse(readFileSync(inject, 'utf-8')), dirname(resolve(inject)));
+    logger.info('Loaded chaos config', { path: inject });
+    return config;
+  } catch (err) {
+    logger.error('Failed to load chaos config', { path: inject, error: err });
+    process.exit(1);
+  }
+}
 
-  targetReader.on('line', (line: string) => {
-    try {
-      const message = JSON.parse(line);
+/**
+ * Validate a chaos config, resolve its presets and fix its seed
+ */
+function prepareChaosConfig(chaosConfig: ChaosConfig, seed: string | undefined, backend?: string): ChaosConfig {
+  // Refuse configs the injector would misread; unknown keys are merely ignored
+  const { errors, warnings } = validateChaosConfig(chaosConfig);
+  for (const warning of warnings) {
+    logger.warn('Chaos config warning', { ...(backend && { backend }), ...warning });
+  }
+  if (errors.length > 0) {
+    for (const error of errors) {
+      logger.error('Invalid chaos config', { ...(backend && { backend }), ...error });
+    }
+    process.exit(1);
+  }
+  const resolved = resolvePresets(chaosConfig);
 
-      // Record response
-      if (message.id !== undefined) {
-        let chaosInfo: ChaosApplied | undefined;
+  // Fix the seed up front so session_start records it and the run can be replayed
+  const effectiveSeed = seed !== undefined ? parseInt(seed, 10) : resolved.seed ?? Date.now();
+  if (Number.isNaN(effectiveSeed)) {
+    logger.error('Invalid --seed', { seed });
+    process.exit(1);
+  }
+  logger.info('Chaos seed', { ...(backend && { backend }), seed: effectiveSeed });
+  return { ...resolved, seed: effectiveSeed };
+}
 
-        // Check if chaos was applied (we'd need to track this from the request)
-        if (injector) {
-          // For now, just record the seed
-          chaosInfo = { seed: injector.getSeed() };
-        }
+function parseListenPort(listen: string): number {
+  const port = parseInt(listen, 10);
+  if (Number.isNaN(port) || port < 1 || port > 65535) {
+    logger.error('Invalid --listen port', { listen });
+    process.exit(1);
+  }
+  return port;
+}
 
-        recorder.recordRpcResponse(message.id, message.result, message.error, chaosInfo);
-      }
-    } catch {
-      // Not JSON, ignore for recording
+// A port we can't bind ends the proxy like any other bad option
+function exitOnListenError(server: Server, port: number): void {
+  server.on('error', (err: NodeJS.ErrnoException) => {
+    if (err.code === 'EADDRINUSE') {
+      logger.error('Port in use', { port });
+    } else {
+      logger.error('Failed to listen', { port, error: err.message });
     }
-
-    // Always forward to stdout
-    process.stdout.write(line + '\n');
+    process.exit(1);
   });
+}
 
-  // Handle process exit
-  const cleanup = () => {
-    logger.info('Ending trace session', { path: trace });
-    recorder.end();
-    targetProcess.kill();
+function shutdownOnSignal(sessions: Set<ProxySession>, server: Server): void {
+  const shutdown = () => {
+    for (const session of sessions) {
+      session.end(0);
+    }
+    server.close();
     process.exit(0);
   };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
 
-  process.on('SIGINT', cleanup);
-  process.on('SIGTERM', cleanup);
-
-  targetProcess.on('close', (code) => {
-    logger.info('Target process exited', { code });
-    recorder.end();
-    process.exit(code ?? 0);
-  });
-
-  stdinReader.on('close', () => {
-    cleanup();
-  });
+/**
+ * Trace path for the nth session in --listen mode: session.jsonl -> session-3.jsonl
+ */
+function numberedPath(path: string, n: number): string {
+  const ext = extname(path);
+  return `${path.slice(0, path.length - ext.length)}-${n}${ext}`;
 }
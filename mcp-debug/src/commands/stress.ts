@@ -1,16 +1,19 @@
-import { spawn } from 'child_process';
 import { writeFileSync, mkdirSync } from 'fs';
 import { dirname } from 'path';
 import { logger, setLogLevel } from '../utils/logger.js';
 import { generateMutations, type Mutation, type JsonSchema } from '../stress/schema-mutator.js';
 import { generateStressReport, type StressResult, type StressOutcome } from '../stress/reporter.js';
 import { LegacyTraceRecorder } from '../tracer/recorder.js';
+import { isRemoteTarget, parseTargetSpec, targetSpecProblems, withTargetOptions, type TargetSpec } from '../transport/spec.js';
+import { spawnTarget } from '../transport/target.js';
 
 interface StressOptions {
   target: string;
   output: string;
   trace?: string;
   debug?: boolean;
+  env?: string[];
+  cwd?: string;
 }
 
 interface Tool {
@@ -19,46 +22,6 @@ interface Tool {
   inputSchema?: JsonSchema;
 }
 
-/**
- * Parse a command string into command and args
- * Handles quoted strings properly
- */
-function parseCommand(target: string): { cmd: string; args: string[] } {
-  const parts: string[] = [];
-  let current = '';
-  let inQuote = false;
-  let quoteChar = '';
-
-  for (let i = 0; i < target.length; i++) {
-    const char = target[i];
-
-    if (inQuote) {
-      if (char === quoteChar) {
-        inQuote = false;
-      } else {
-        current += char;
-      }
-    } else if (char === '"' || char === "'") {
-      inQuote = true;
-      quoteChar = char;
-    } else if (char === ' ' || char === '\t') {
-      if (current) {
-        parts.push(current);
-        current = '';
-      }
-    } else {
-      current += char;
-    }
-  }
-
-  if (current) {
-    parts.push(current);
-  }
-
-  const [cmd, ...args] = parts;
-  return { cmd, args };
-}
-
 /**
  * Classify the outcome of a stress test
  */
@@ -129,20 +92,28 @@ export async function stressCommand(options: StressOptions): Promise<void> {
     setLogLevel('debug');
   }
 
-  // Parse target into command and args
-  const { cmd: targetCmd, args: targetArgs } = parseCommand(target);
+  let spec: TargetSpec;
+  try {
+    spec = withTargetOptions(parseTargetSpec(target), options);
+  } catch (err) {
+    logger.error('Invalid --env', { error: err instanceof Error ? err.message : String(err) });
+    process.exit(1);
+  }
 
-  if (!targetCmd) {
-    logger.error('No command specified in target');
+  const problems = targetSpecProblems(spec);
+  if (isRemoteTarget(spec.command)) {
+    problems.push('Stress tests need a command target, not a URL');
+  }
+  if (problems.length > 0) {
+    for (const problem of problems) {
+      logger.error('Invalid target', { problem });
+    }
     process.exit(1);
   }
 
-  logger.info('Starting stress test', { cmd: targetCmd, args: targetArgs });
+  logger.info('Starting stress test', { cmd: spec.command, args: spec.args ?? [] });
 
-  // Spawn target MCP server without shell
-  const targetProcess = spawn(targetCmd, targetArgs, {
-    stdio: ['pipe', 'pipe', 'pipe'],
-  });
+  const targetProcess = spawnTarget(spec);
 
   // Handle spawn errors
   targetProcess.on('error', (err) => {
@@ -0,0 +1,422 @@
+import { TraceRecorder } from '../tracer/recorder.js';
+import { logger } from '../utils/logger.js';
+import { lineWriter, type ClientChannel } from '../transport/client.js';
+import { fieldsOf, parseLine, type JsonRpcMessage, type RequestId } from '../utils/jsonrpc.js';
+import { runSession, type ProxySession, type SessionSettings } from './session.js';
+import { BatchCollector } from './batch.js';
+import type { RpcError } from '../tracer/types.js';
+
+// One backend as configured: its session settings plus the prefix its tools get
+export interface BackendSettings {
+  name: string;
+  prefix: string;
+  settings: Omit<SessionSettings, 'recorder' | 'backend'>;
+}
+
+// How long a fanned-out request waits for every backend. A backend's own chaos
+// can keep its reply from ever arriving: a silent timeout, a wrong id or a
+// frame too broken to match.
+const FAN_OUT_TIMEOUT_MS = 30_000;
+
+interface Tool {
+  name: string;
+  [key: string]: unknown;
+}
+
+/**
+ * The router's end of a backend session: the session reads what the router
+ * pushes and writes its output back into the router
+ */
+class BackendChannel implements ClientChannel {
+  readonly output: NodeJS.WritableStream;
+  private lineListeners: Array<(line: string) => void> = [];
+  private closeListeners: Array<() => void> = [];
+
+  constructor(onOutput: (line: string) => void) {
+    this.output = lineWriter(onOutput);
+  }
+
+  onLine(listener: (line: string) => void): void {
+    this.lineListeners.push(listener);
+  }
+
+  onClose(listener: () => void): void {
+    this.closeListeners.push(listener);
+  }
+
+  send(message: unknown): void {
+    const line = JSON.stringify(message);
+    for (const listener of this.lineListeners) listener(line);
+  }
+
+  close(): void {
+    for (const listener of this.closeListeners) listener();
+  }
+}
+
+interface Backend extends BackendSettings {
+  channel: BackendChannel;
+  running?: ProxySession;
+  // Failed the agent's initialize; left out of listings and routing
+  refused: boolean;
+  ended: boolean;
+}
+
+// A request answered by merging what every backend returned
+interface FanOut {
+  agentId: RequestId;
+  method: 'initialize' | 'tools/list';
+  params: Record<string, unknown>;
+  waiting: Set<string>;
+  results: Map<string, Record<string, unknown>>;
+  tools: Map<string, Tool[]>;
+  timer?: NodeJS.Timeout;
+  done: boolean;  // Answered; later replies are dropped
+}
+
+type Pending =
+  | { kind: 'forward'; backend: Backend; agentId: RequestId }
+  | { kind: 'fanout'; backend: Backend; fanOut: FanOut; page: number };
+
+/**
+ * Front several backends as one MCP server. Tools from each backend are
+ * listed under its prefix and calls are routed back by that prefix. Every
+ * backend runs a full proxy session with its own chaos, all recording into
+ * one run with events labelled by backend.
+ */
+export function runAggregate(
+  backendSettings: BackendSettings[],
+  recorder: TraceRecorder,
+  client: ClientChannel,
+  onEnd: (code: number) => void
+): ProxySession {
+  const backends: Backend[] = backendSettings.map((settings) => {
+    const backend: Backend = {
+      ...settings,
+      channel: new BackendChannel((line) => handleBackendLine(backend, line)),
+      refused: false,
+      ended: false,
+    };
+    return backend;
+  });
+
+  // Requests sent to backends, keyed by the id the backend sees: `<backend>:<agent id>`
+  const pending = new Map<string, Pending>();
+  // Calls already answered stay mapped, so a duplicated response still reaches the agent under its id
+  const answered = new Map<string, RequestId>();
+  // Requests from backends to the agent, keyed by the id the agent sees
+  const serverRequests = new Map<string, { backend: Backend; id: RequestId }>();
+  let ended = false;
+
+  const writeToAgent = (message: unknown) => {
+    client.output.write((typeof message === 'string' ? message : JSON.stringify(message)) + '\n');
+  };
+
+  // Responses to the agent's batches go back as one batch
+  const batches = new BatchCollector(({ line }) => writeToAgent(line));
+  const respondToAgent = (message: JsonRpcMessage) => {
+    batches.deliver(message.id, { line: JSON.stringify(message) });
+  };
+
+  // Requests the router answers itself are recorded without a backend
+  const answerAgent = (id: RequestId, response: { result?: unknown; error?: RpcError }) => {
+    recorder.recordRpcResponse(id, response.result, response.error);
+    respondToAgent({ jsonrpc: '2.0', id, ...response });
+  };
+
+  const backendId = (backend: Backend, agentId: RequestId, page = 1) =>
+    page > 1 ? `${backend.name}:${agentId}/${page}` : `${backend.name}:${agentId}`;
+
+  const startFanOut = (message: JsonRpcMessage, method: FanOut['method'], targets: Backend[]) => {
+    const fanOut: FanOut = {
+      agentId: message.id!,
+      method,
+      params: fieldsOf(message.params),
+      waiting: new Set(targets.map((backend) => backend.name)),
+      results: new Map(),
+      tools: new Map(),
+      done: false,
+    };
+    if (targets.length === 0) {
+      finishFanOut(fanOut);
+      return;
+    }
+    for (const backend of targets) {
+      const id = backendId(backend, fanOut.agentId);
+      pending.set(id, { kind: 'fanout', backend, fanOut, page: 1 });
+      backend.channel.send({ ...message, id, params: method === 'tools/list' ? {} : message.params });
+    }
+    fanOut.timer = setTimeout(() => expireFanOut(fanOut), FAN_OUT_TIMEOUT_MS).unref();
+  };
+
+  // Backends that haven't answered by the deadline count as failed; the agent gets what the others returned
+  const expireFanOut = (fanOut: FanOut) => {
+    for (const name of fanOut.waiting) {
+      logger.warn('Backend did not answer fanned-out request in time', { backend: name, method: fanOut.method, timeoutMs: FAN_OUT_TIMEOUT_MS });
+      const backend = backends.find((candidate) => candidate.name === name);
+      if (backend && fanOut.method === 'initialize') {
+        backend.refused = true;
+      }
+    }
+    finishFanOut(fanOut);
+  };
+
+  const finishFanOut = (fanOut: FanOut) => {
+    if (fanOut.done) return;
+    fanOut.done = true;
+    clearTimeout(fanOut.timer);
+
+    if (fanOut.method === 'tools/list') {
+      // Listed in backends-file order, whichever answered first
+      const tools = backends.flatMap((backend) => fanOut.tools.get(backend.name) ?? []);
+      respondToAgent({ jsonrpc: '2.0', id: fanOut.agentId, result: { tools } });
+      return;
+    }
+
+    if (fanOut.results.size === 0) {
+      respondToAgent({
+        jsonrpc: '2.0',
+        id: fanOut.agentId,
+        error: { code: -32000, message: 'No backend could be initialized' },
+      });
+      return;
+    }
+
+    // Offer the oldest protocol version any backend settled on, so every backend understands it
+    const versions = [...fanOut.results.values()]
+      .map((result) => result.protocolVersion)
+      .filter((version): version is string => typeof version === 'string')
+      .sort();
+    respondToAgent({
+      jsonrpc: '2.0',
+      id: fanOut.agentId,
+      result: {
+        protocolVersion: versions[0] ?? fanOut.params.protocolVersion,
+        capabilities: { tools: { listChanged: true } },
+        serverInfo: { name: 'mcp-debug-aggregate', version: '0.1.0' },
+      },
+    });
+  };
+
+  const handleFanOutResponse = (entry: Extract<Pending, { kind: 'fanout' }>, message: JsonRpcMessage) => {
+    const { backend, fanOut, page } = entry;
+    if (fanOut.done) {
+      logger.debug('Dropping late reply to fanned-out request', { backend: backend.name, method: fanOut.method });
+      return;
+    }
+
+    if (message.error) {
+      logger.warn('Backend failed fanned-out request', { backend: backend.name, method: fanOut.method, error: message.error.message });
+      backend.refused ||= fanOut.method === 'initialize';
+    } else if (fanOut.method === 'initialize') {
+      fanOut.results.set(backend.name, fieldsOf(message.result));
+    } else {
+      const result = fieldsOf(message.result);
+      const tools = Array.isArray(result.tools) ? result.tools as Tool[] : [];
+      fanOut.tools.set(backend.name, [
+        ...fanOut.tools.get(backend.name) ?? [],
+        ...tools.map((tool) => ({ ...tool, name: `${backend.prefix}${tool.name}` })),
+      ]);
+
+      // Collect every page ourselves; the agent gets one merged list
+      const cursor = result.nextCursor;
+      if (typeof cursor === 'string') {
+        const id = backendId(backend, fanOut.agentId, page + 1);
+        pending.set(id, { kind: 'fanout', backend, fanOut, page: page + 1 });
+        backend.channel.send({ jsonrpc: '2.0', id, method: 'tools/list', params: { cursor } });
+        return;
+      }
+    }
+
+    fanOut.waiting.delete(backend.name);
+    if (fanOut.waiting.size === 0) {
+      finishFanOut(fanOut);
+    }
+  };
+
+  // A line a backend session wrote for the agent; a batch is taken apart
+  const handleBackendLine = (backend: Backend, line: string) => {
+    const parsed = parseLine(line);
+    if ('error' in parsed) {
+      // Garbage or a truncated frame, already recorded by the session; pass it on as the agent would have seen it
+      writeToAgent(line);
+      return;
+    }
+    for (const message of parsed.messages) {
+      handleBackendMessage(backend, message);
+    }
+  };
+
+  const handleBackendMessage = (backend: Backend, message: JsonRpcMessage) => {
+    // A request from the backend to the agent (sampling, roots, ...)
+    if (message.method !== undefined && message.id != null) {
+      const id = `${backend.name}:${message.id}`;
+      serverRequests.set(id, { backend, id: message.id });
+      writeToAgent({ ...message, id });
+      return;
+    }
+
+    // Notifications (progress tokens are the agent's own) pass straight through
+    if (message.method !== undefined || message.id == null) {
+      writeToAgent(message);
+      return;
+    }
+
+    const key = String(message.id);
+    const entry = pending.get(key);
+    pending.delete(key);
+
+    if (entry?.kind === 'fanout') {
+      handleFanOutResponse(entry, message);
+      return;
+    }
+
+    const agentId = entry?.agentId ?? answered.get(key);
+    if (entry) {
+      answered.set(key, entry.agentId);
+    }
+    // An id the router never issued (a wrongId fault) reaches the agent unchanged
+    respondToAgent(agentId === undefined ? message : { ...message, id: agentId });
+  };
+
+  // Backends that end stop answering; their outstanding requests fail
+  const handleBackendEnd = (backend: Backend, code: number) => {
+    backend.ended = true;
+    if (ended) return;
+    for (const [key, entry] of pending) {
+      if (entry.backend !== backend) continue;
+      pending.delete(key);
+      if (entry.kind === 'forward') {
+        answerAgent(entry.agentId, { error: { code: -32000, message: `Connection closed: backend ${backend.name} exited` } });
+      } else {
+        entry.fanOut.waiting.delete(backend.name);
+        if (entry.fanOut.waiting.size === 0) {
+          finishFanOut(entry.fanOut);
+        }
+      }
+    }
+
+    if (backends.every((other) => other.ended)) {
+      logger.info('All backends ended');
+      endAggregate(code);
+    }
+  };
+
+  for (const backend of backends) {
+    recorder.recordBackendStart(backend.name, backend.settings.target, backend.prefix, backend.settings.chaosConfig);
+    backend.running = runSession(
+      { ...backend.settings, recorder, backend: backend.name },
+      backend.channel,
+      (code) => handleBackendEnd(backend, code)
+    );
+  }
+
+  // Longest prefix first, so `fs.` never shadows `fs.remote.`
+  const byPrefix = [...backends].sort((a, b) => b.prefix.length - a.prefix.length);
+  const findBackend = (tool: string) => byPrefix.find((backend) => tool.startsWith(backend.prefix));
+
+  // Route the agent's messages to the backends that own them
+  client.onLine((line: string) => {
+    const parsed = parseLine(line);
+    if ('error' in parsed) {
+      // No backend can be picked for a line that can't be read
+      logger.warn('Dropping malformed line from agent', { error: parsed.error, length: line.length });
+      recorder.recordTransportError('agent', parsed.error, line);
+      return;
+    }
+
+    if (parsed.batch) {
+      batches.expect(parsed.messages.flatMap((message) => message.method !== undefined && message.id != null ? [message.id] : []));
+    }
+    for (const message of parsed.messages) {
+      handleAgentMessage(message);
+    }
+  });
+
+  const handleAgentMessage = (message: JsonRpcMessage) => {
+    const live = backends.filter((backend) => !backend.ended && !backend.refused);
+
+    // The agent answering a backend's request
+    if (message.method === undefined) {
+      const key = String(message.id);
+      const request = serverRequests.get(key);
+      serverRequests.delete(key);
+      if (request && !request.backend.ended) {
+        request.backend.channel.send({ ...message, id: request.id });
+      }
+      return;
+    }
+
+    if (message.id == null) {
+      // Cancellation concerns the backend the request went to; everything else goes to all
+      const params = fieldsOf(message.params);
+      const requestId = params.requestId;
+      if (message.method === 'notifications/cancelled' && requestId !== undefined) {
+        const entry = [...pending.entries()].find(([, p]) => p.kind === 'forward' && p.agentId === requestId);
+        if (entry) {
+          const [id, { backend }] = entry;
+          backend.channel.send({ ...message, params: { ...params, requestId: id } });
+        }
+        return;
+      }
+      for (const backend of live) {
+        backend.channel.send(message);
+      }
+      return;
+    }
+
+    switch (message.method) {
+      case 'initialize':
+        startFanOut(message, 'initialize', live);
+        return;
+
+      case 'tools/list':
+        startFanOut(message, 'tools/list', live);
+        return;
+
+      case 'tools/call': {
+        const params = fieldsOf(message.params);
+        const name = typeof params.name === 'string' ? params.name : '';
+        const backend = findBackend(name);
+        if (!backend || backend.ended || backend.refused) {
+          recorder.recordRpcRequest(message.id, message.method, message.params);
+          answerAgent(message.id, {
+            error: backend
+              ? { code: -32000, message: `Backend ${backend.name} is not available` }
+              : { code: -32602, message: `Unknown tool: ${name}` },
+          });
+          return;
+        }
+        const id = backendId(backend, message.id);
+        pending.set(id, { kind: 'forward', backend, agentId: message.id });
+        backend.channel.send({ ...message, id, params: { ...params, name: name.slice(backend.prefix.length) } });
+        return;
+      }
+
+      case 'ping':
+        recorder.recordRpcRequest(message.id, message.method, message.params);
+        answerAgent(message.id, { result: {} });
+        return;
+
+      default:
+        recorder.recordRpcRequest(message.id, message.method, message.params);
+        answerAgent(message.id, {
+          error: { code: -32601, message: `Method not supported by the aggregating proxy: ${message.method}` },
+        });
+    }
+  };
+
+  const endAggregate = (code: number) => {
+    if (ended) return;
+    ended = true;
+    for (const backend of backends) {
+      backend.running?.end(0);
+    }
+    recorder.end();
+    onEnd(code);
+  };
+
+  client.onClose(() => endAggregate(0));
+
+  return { end: endAggregate };
+}
@@ -0,0 +1,56 @@
+import { readFileSync } from 'fs';
+import { z } from 'zod';
+import { targetInputSchema, toTargetSpec, type TargetSpec } from '../transport/spec.js';
+
+// A backend's chaos: a config file path, preset:<name>, or an inline config
+export type BackendChaos = string | Record<string, unknown>;
+
+export interface BackendEntry {
+  name: string;
+  target: TargetSpec;
+  prefix: string;
+  chaos?: BackendChaos;
+}
+
+const backendSchema = z.object({
+  target: targetInputSchema,
+  prefix: z.string().min(1).optional(),
+  chaos: z.union([z.string().min(1), z.record(z.string(), z.unknown())]).optional(),
+}).strict();
+
+const backendsFileSchema = z.object({
+  backends: z.record(
+    z.string().regex(/^[A-Za-z0-9_-]+$/, 'Backend names may only contain letters, digits, _ and -'),
+    backendSchema
+  ).refine((backends) => Object.keys(backends).length > 0, 'At least one backend is required'),
+}).strict();
+
+/**
+ * Read a --backends file. Tool prefixes default to `<name>.` and must be
+ * distinct; throws with every problem found.
+ */
+export function loadBackends(path: string): BackendEntry[] {
+  const parsed = backendsFileSchema.safeParse(JSON.parse(readFileSync(path, 'utf-8')));
+  if (!parsed.success) {
+    const problems = parsed.error.issues.map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+    throw new Error(problems.join('; '));
+  }
+
+  const backends = Object.entries(parsed.data.backends).map(([name, backend]) => ({
+    name,
+    target: toTargetSpec(backend.target),
+    prefix: backend.prefix ?? `${name}.`,
+    chaos: backend.chaos,
+  }));
+
+  const seen = new Map<string, string>();
+  for (const backend of backends) {
+    const other = seen.get(backend.prefix);
+    if (other) {
+      throw new Error(`backends.${backend.name}: prefix "${backend.prefix}" is already used by ${other}`);
+    }
+    seen.set(backend.prefix, backend.name);
+  }
+
+  return backends;
+}
@@ -0,0 +1,74 @@
+import { withWrongId } from '../chaos/wire.js';
+import { idKey, type RequestId } from '../utils/jsonrpc.js';
+import type { WireFault } from '../chaos/types.js';
+
+// A message bound for the agent with the wire faults it should suffer
+export interface Outgoing {
+  line: string;
+  faults?: WireFault[];
+}
+
+/**
+ * Join messages into one batch line. A wrong id hits its own message; every
+ * other fault applies to the batch as a whole.
+ */
+export function joinBatch(parts: Outgoing[]): Outgoing {
+  const faults = new Set<WireFault>();
+  const lines = parts.map(({ line, faults: own = [] }) => {
+    for (const fault of own) {
+      if (fault !== 'wrongId') faults.add(fault);
+    }
+    return own.includes('wrongId') ? withWrongId(line) : line;
+  });
+  return { line: `[${lines.join(',')}]`, faults: [...faults] };
+}
+
+interface OpenBatch {
+  remaining: Set<string>;
+  parts: Outgoing[];
+}
+
+/**
+ * Holds responses to the requests of an agent's batch until all are
+ * answered, then writes them as one batch. Anything else passes straight
+ * through, so a batch with a request that is never answered never comes back.
+ */
+export class BatchCollector {
+  private write: (outgoing: Outgoing) => void;
+  private open = new Map<string, OpenBatch>();
+
+  constructor(write: (outgoing: Outgoing) => void) {
+    this.write = write;
+  }
+
+  /**
+   * Start collecting responses for a batch's request ids
+   */
+  expect(ids: RequestId[]): void {
+    const batch: OpenBatch = { remaining: new Set(), parts: [] };
+    for (const key of ids.map(idKey)) {
+      if (this.open.has(key)) continue;  // Reused id; its response goes out on its own
+      batch.remaining.add(key);
+      this.open.set(key, batch);
+    }
+  }
+
+  /**
+   * Send a response, or hold it if it answers part of a batch
+   */
+  deliver(id: RequestId | null | undefined, outgoing: Outgoing): void {
+    const key = id === undefined || id === null ? undefined : idKey(id);
+    const batch = key !== undefined ? this.open.get(key) : undefined;
+    if (!batch || key === undefined) {
+      this.write(outgoing);
+      return;
+    }
+
+    this.open.delete(key);
+    batch.remaining.delete(key);
+    batch.parts.push(outgoing);
+    if (batch.remaining.size === 0) {
+      this.write(joinBatch(batch.parts));
+    }
+  }
+}
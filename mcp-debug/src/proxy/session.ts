@@ -0,0 +1,605 @@
+import { readFileSync, watchFile, unwatchFile, type Stats } from 'fs';
+import { dirname, resolve } from 'path';
+import { TraceRecorder } from '../tracer/recorder.js';
+import { ChaosInjector, describeCall, hasChaos, type ChaosCall } from '../chaos/injector.js';
+import { NotificationInjector } from '../chaos/notifications.js';
+import { WireWriter } from '../chaos/wire.js';
+import { CrashScheduler, type CrashTrigger } from '../chaos/crash.js';
+import { validateChaosConfig, unknownToolWarnings } from '../chaos/schema.js';
+import { isPresetReference, resolvePresets } from '../chaos/presets.js';
+import { resolvePayloadFiles } from '../chaos/adversarial.js';
+import { logger } from '../utils/logger.js';
+import { startTarget, type Target } from '../transport/target.js';
+import { parseLine, idKey, fieldsOf, type JsonRpcMessage, type RequestId } from '../utils/jsonrpc.js';
+import { BatchCollector, joinBatch, type Outgoing } from './batch.js';
+import type { ClientChannel } from '../transport/client.js';
+import type { TargetSpec } from '../transport/spec.js';
+import type { RunQueries } from '../server/db/queries.js';
+import type { ChaosConfig, ChaosApplied } from '../chaos/types.js';
+import type { RpcError } from '../tracer/types.js';
+
+// Everything a session needs once the target and chaos config are settled
+export interface SessionSettings {
+  target: string;  // Display form of the spec, as recorded on the run
+  spec: TargetSpec;
+  trace?: string;
+  inject?: string;
+  chaosConfig?: ChaosConfig;
+  agentDbId?: string;
+  dbQueries: RunQueries;
+  // Aggregating proxy: record into this shared run, labelled with the backend, and leave ending it to the owner
+  recorder?: TraceRecorder;
+  backend?: string;
+}
+
+// A running session; end() is safe to call more than once
+export interface ProxySession {
+  end(code: number): void;
+}
+
+/**
+ * Proxy one client session: start the target, forward traffic both ways with
+ * chaos applied, and record it all as one run. `onEnd` runs once the session
+ * is over, with the exit code a stdio proxy would use.
+ */
+export function runSession(settings: SessionSettings, client: ClientChannel, onEnd: (code: number) => void): ProxySession {
+  const { target, spec, trace, inject, chaosConfig, agentDbId, dbQueries, backend } = settings;
+
+  // Initialize recorder with database (file trace is now optional)
+  const recorder = settings.recorder
+    ?? new TraceRecorder(target, spec.command, spec.args ?? [], trace || null, chaosConfig, dbQueries, agentDbId);
+
+  if (!settings.recorder) {
+    logger.info('Run created', { runId: recorder.getRunId() });
+  }
+
+  const createInjector = (config: ChaosConfig): ChaosInjector => {
+    const created = new ChaosInjector(config);
+    const initialPhase = created.getCurrentPhase();
+    if (initialPhase) {
+      recorder.recordChaosPhase(initialPhase.phase, initialPhase.index, 0, undefined, backend);
+    }
+    created.onPhaseChange(({ phase, index, previous, callCount, at }) => {
+      logger.info('Entering chaos phase', { phase, previous, callCount });
+      recorder.recordChaosPhase(phase, index, callCount, previous, backend, at);
+    });
+    return created;
+  };
+
+  let injector = chaosConfig ? createInjector(chaosConfig) : undefined;
+
+  // Everything bound for the agent goes through one writer so wire faults can't tear other lines
+  const wire = new WireWriter(client.output);
+
+  // Unsolicited notifications go straight to the agent
+  const createNotifier = (config: ChaosConfig | undefined) => config?.notifications?.length
+    ? new NotificationInjector(config.notifications, ({ method, params }, callCount) => {
+        logger.info('Injecting notification', { method, callCount });
+        recorder.recordChaosNotification(method, params, callCount, backend);
+        wire.write(JSON.stringify({ jsonrpc: '2.0', method, ...(params && { params }) }));
+      })
+    : undefined;
+
+  let notifier = createNotifier(chaosConfig);
+
+  // MCP allows nothing but logging and pings before the handshake, so the
+  // notifier starts once the agent's notifications/initialized is forwarded
+  let handshakeDone = false;
+
+  // Responses to each side's batches are held until the whole batch can go back as one
+  const agentBatches = new BatchCollector(({ line, faults }) => wire.write(line, faults));
+  const targetBatches = new BatchCollector(({ line }) => sendToTarget(line));
+
+  // Requests forwarded to the target and not yet answered, keyed by idKey(id)
+  const inFlight = new Map<string, RequestId>();
+
+  // Crash chaos state: the agent's initialize request is replayed to a restarted
+  // target, and the agent's traffic is queued until that replay is answered
+  let crashConfig = chaosConfig?.crash;
+  let crashCount = 0;
+  let crashing = false;
+  let initializeLine: string | undefined;
+  let replayId: string | undefined;
+  let restartQueue: string[] | undefined;
+
+  const sendToTarget = (line: string) => {
+    if (restartQueue) {
+      restartQueue.push(line);
+    } else {
+      activeTarget.send(line);
+    }
+  };
+
+  const flushRestartQueue = () => {
+    const queued = restartQueue ?? [];
+    restartQueue = undefined;
+    replayId = undefined;
+    for (const line of queued) {
+      activeTarget.send(line);
+    }
+  };
+
+  let catalogChecked = false;
+
+  // Delays, withheld responses and restarts wait on these; ending the session cancels them
+  let ended = false;
+  const timers = new Set<NodeJS.Timeout>();
+  const schedule = (callback: () => void, ms: number) => {
+    const timer = setTimeout(() => {
+      timers.delete(timer);
+      if (ended) return;
+      callback();
+    }, ms);
+    timers.add(timer);
+  };
+
+  // Chaos decided for each forwarded request, keyed by request id
+  const pendingChaos = new Map<string, { call: ChaosCall; chaos: ChaosApplied }>();
+
+  // Answer a request on the target's behalf
+  const respondWithError = (id: RequestId, error: RpcError, chaos: ChaosApplied) => {
+    recorder.recordRpcResponse(id, undefined, error, chaos, backend);
+    agentBatches.deliver(id, { line: JSON.stringify({ jsonrpc: '2.0', id, error }) });
+  };
+
+  // Answer a tool call on the target's behalf with a failed tool result
+  const respondWithToolError = (id: RequestId, message: string, chaos: ChaosApplied) => {
+    const result = { content: [{ type: 'text', text: message }], isError: true };
+    recorder.recordRpcResponse(id, result, undefined, chaos, backend);
+    agentBatches.deliver(id, { line: JSON.stringify({ jsonrpc: '2.0', id, result }) });
+  };
+
+  // Record one message from the agent, apply chaos and pass it on
+  const handleAgentMessage = async (message: JsonRpcMessage, line: string) => {
+    const id = message.id ?? undefined;
+
+    // Answers to the target's own requests
+    if (message.method === undefined) {
+      recorder.recordRpcResponse(id, message.result, message.error, undefined, backend, 'target');
+      targetBatches.deliver(id, { line });
+      return;
+    }
+
+    // Record the request
+    recorder.recordRpcRequest(id, message.method, message.params, backend);
+
+    if (message.method === 'tools/call' && id !== undefined) {
+      notifier?.onToolCall();
+    }
+
+    let forwardLine = line;
+
+    // Apply chaos to request if configured
+    if (injector && id !== undefined) {
+      let params = message.params;
+      let drifted = false;
+
+      // Map calls against the drifted catalog back to the real tool
+      const { name, arguments: args } = fieldsOf(params);
+      if (message.method === 'tools/call' && injector.hasDrift() && typeof name === 'string') {
+        const translated = injector.translateToolCall(name, args);
+        if ('error' in translated) {
+          logger.info('Rejecting call against drifted catalog', { tool: name, error: translated.error.message });
+          respondWithError(id, translated.error, { seed: injector.getSeed(), errorInjected: true, drifted: true });
+          return;
+        }
+        drifted = translated.name !== name ||
+          JSON.stringify(translated.args) !== JSON.stringify(args ?? {});
+        if (drifted) {
+          params = { ...fieldsOf(params), name: translated.name, arguments: translated.args };
+          forwardLine = JSON.stringify({ ...message, params });
+        }
+      }
+
+      const call = describeCall(message.method, params);
+      const { method, tool } = call;
+
+      const chaos = injector.applyChaos(call);
+      if (drifted) {
+        chaos.drifted = true;
+      }
+
+      if (chaos.hiddenTools) {
+        logger.info('Rejecting call to hidden tool', { tool });
+        respondWithError(id, { code: -32602, message: `Unknown tool: ${tool}` }, chaos);
+        return;
+      }
+
+      // Over its rate limit: turn the call away and say when to come back
+      if (chaos.throttled) {
+        logger.info('Throttling call', { method, tool, retryAfterMs: chaos.retryAfterMs });
+        respondWithError(
+          id,
+          { code: -32000, message: 'Rate limit exceeded', data: { retryAfterMs: chaos.retryAfterMs } },
+          chaos
+        );
+        return;
+      }
+
+      if (chaos.delayMs) {
+        logger.info('Injecting delay', { method, tool, delay: chaos.delayMs });
+        await new Promise<void>((resolve) => schedule(resolve, chaos.delayMs!));
+      }
+
+      // Short-circuit failing calls with a synthesized error; the target never sees them
+      if (chaos.errorInjected) {
+        const injectedError = injector.getInjectedError(call);
+        if (chaos.errorKind === 'tool') {
+          logger.info('Injecting tool error', { tool });
+          respondWithToolError(id, injectedError.message, chaos);
+        } else {
+          logger.info('Injecting error', { method, tool, code: injectedError.code });
+          respondWithError(id, injectedError, chaos);
+        }
+        return;
+      }
+
+      pendingChaos.set(idKey(id), { call, chaos });
+
+      // Withhold the target's answer; after the timeout either error out or stay silent
+      const { timeoutMs } = chaos;
+      if (timeoutMs !== undefined) {
+        const mode = injector.getTimeoutMode(call);
+        logger.info('Withholding response', { method, tool, timeoutMs, mode });
+        schedule(() => {
+          const timedOutChaos: ChaosApplied = { ...chaos, timedOut: true };
+          if (mode === 'error') {
+            respondWithError(id, { code: -32001, message: `Request timed out after ${timeoutMs}ms` }, timedOutChaos);
+          } else {
+            recorder.recordRpcResponse(id, undefined, undefined, timedOutChaos, backend);
+          }
+        }, timeoutMs);
+      }
+    }
+
+    if (message.method === 'initialize') {
+      initializeLine = forwardLine;
+    }
+    if (id !== undefined) {
+      inFlight.set(idKey(id), id);
+    }
+
+    // Forward to target
+    sendToTarget(forwardLine);
+
+    if (message.method === 'notifications/initialized' && !handshakeDone) {
+      handshakeDone = true;
+      notifier?.start();
+    }
+    if (message.method === 'tools/call' && id !== undefined) {
+      crasher?.onToolCall();
+    }
+  };
+
+  // Forward the agent's messages to the target. A batch is taken apart so
+  // chaos applies to each request; the responses go back as one batch.
+  client.onLine((line: string) => {
+    const parsed = parseLine(line);
+    if ('error' in parsed) {
+      logger.warn('Malformed message from agent', { error: parsed.error, length: line.length });
+      recorder.recordTransportError('agent', parsed.error, line, backend);
+      sendToTarget(line);
+      return;
+    }
+
+    if (parsed.batch) {
+      agentBatches.expect(parsed.messages.flatMap((message) => message.method !== undefined && message.id != null ? [message.id] : []));
+    }
+    for (const message of parsed.messages) {
+      const forwardLine = parsed.batch ? JSON.stringify(message) : line;
+      handleAgentMessage(message, forwardLine).catch((err) => {
+        logger.error('Failed to handle agent message', { error: String(err) });
+        sendToTarget(forwardLine);
+      });
+    }
+  });
+
+  // Record one message from the target and apply chaos to it. Returns what
+  // the agent gets, or undefined if the message goes no further.
+  const handleTargetMessage = (message: JsonRpcMessage, line: string): Outgoing | undefined => {
+    const id = message.id ?? undefined;
+
+    // The target's own requests and notifications pass straight through
+    if (message.method !== undefined) {
+      if (id !== undefined) {
+        recorder.recordRpcRequest(id, message.method, message.params, backend, 'target');
+      }
+      return { line };
+    }
+
+    // The restarted target finished the replayed handshake; let the agent's traffic through.
+    // Only while a replay is pending: otherwise replayId is undefined, like the id of every notification.
+    if (replayId !== undefined && id === replayId) {
+      logger.info('Replayed initialize to restarted target');
+      flushRestartQueue();
+      return undefined;
+    }
+
+    let output = line;
+    let chaos: ChaosApplied | undefined;
+    let result = message.result;
+    const pending = id !== undefined ? pendingChaos.get(idKey(id)) : undefined;
+    if (id !== undefined) {
+      inFlight.delete(idKey(id));
+    }
+
+    if (pending && injector && id !== undefined) {
+      const { method, tool } = pending.call;
+      chaos = pending.chaos;
+      pendingChaos.delete(idKey(id));
+
+      // The timeout handler owns this call; the agent never sees the real answer
+      if (chaos.timeoutMs !== undefined) {
+        logger.debug('Dropping withheld response', { id, method, tool });
+        return undefined;
+      }
+
+      // Point out config entries for tools the target doesn't offer, once
+      const listed = fieldsOf(result).tools;
+      if (method === 'tools/list' && !catalogChecked && chaosConfig && Array.isArray(listed)) {
+        catalogChecked = true;
+        const available = listed.map((t: { name: string }) => t.name);
+        for (const warning of unknownToolWarnings(chaosConfig, available)) {
+          logger.warn('Chaos config warning', warning);
+        }
+      }
+
+      // Make hidden tools disappear from the catalog
+      const hiddenTools = method === 'tools/list' ? injector.getHiddenTools() : [];
+      if (hiddenTools.length > 0 && Array.isArray(listed)) {
+        logger.info('Hiding tools', { hiddenTools });
+        result = { ...fieldsOf(result), tools: listed.filter((t: { name: string }) => !hiddenTools.includes(t.name)) };
+        chaos = { ...chaos, hiddenTools };
+      }
+
+      // Rewrite the catalog the way a server upgrade would
+      if (method === 'tools/list' && injector.hasDrift() && Array.isArray(fieldsOf(result).tools)) {
+        logger.info('Drifting tool catalog');
+        result = injector.driftToolList(result, pending.call, chaos);
+        chaos = { ...chaos, drifted: true };
+      }
+
+      // Corrupt real target results before they reach the agent
+      if (chaos.responseCorrupted) {
+        if (result === undefined) {
+          // Nothing to corrupt in an error response
+          chaos = { ...chaos, responseCorrupted: undefined, corruption: undefined };
+        } else if (chaos.corruption !== 'truncate') {
+          logger.info('Corrupting response', { method, tool, mode: chaos.corruption ?? 'legacy' });
+          result = injector.corruptResponse(result, pending.call, chaos);
+        }
+      }
+
+      // Plant an adversarial payload and note exactly where it went
+      if (chaos.adversarial) {
+        ({ result, chaos } = injector.injectAdversarial(result, pending.call, chaos));
+        if (chaos.adversarial) {
+          logger.info('Injecting adversarial content', { method, tool, payload: chaos.adversarial.payload });
+        }
+      }
+
+      if (result !== message.result) {
+        output = JSON.stringify({ ...message, result });
+      }
+      if (chaos.responseCorrupted && chaos.corruption === 'truncate') {
+        logger.info('Corrupting response', { method, tool, mode: chaos.corruption });
+        output = injector.truncateMessage(output, pending.call, chaos);
+      }
+    }
+
+    const faults = chaos?.wireFaults;
+    if (faults) {
+      logger.info('Injecting wire faults', { id, faults });
+    }
+
+    recorder.recordRpcResponse(id, result, message.error, hasChaos(chaos) ? chaos : undefined, backend);
+    return { line: output, faults };
+  };
+
+  // Forward the target's output to the agent, intercepting responses.
+  // Responses to an agent batch wait for the rest of it; a batch from the
+  // target goes out as one batch of whatever survives.
+  const handleTargetLine = (line: string) => {
+    const parsed = parseLine(line);
+    if ('error' in parsed) {
+      logger.warn('Malformed message from target', { error: parsed.error, length: line.length });
+      recorder.recordTransportError('target', parsed.error, line, backend);
+      wire.write(line);
+      return;
+    }
+
+    if (!parsed.batch) {
+      const [message] = parsed.messages;
+      const outgoing = handleTargetMessage(message, line);
+      if (!outgoing) return;
+      if (message.method === undefined) {
+        agentBatches.deliver(message.id, outgoing);
+      } else {
+        wire.write(outgoing.line, outgoing.faults);
+      }
+      return;
+    }
+
+    targetBatches.expect(parsed.messages.flatMap((message) => message.method !== undefined && message.id != null ? [message.id] : []));
+    const parts = parsed.messages.flatMap((message) => handleTargetMessage(message, JSON.stringify(message)) ?? []);
+    if (parts.length > 0) {
+      const batch = joinBatch(parts);
+      wire.write(batch.line, batch.faults);
+    }
+  };
+
+  const spawnTarget = (): Target => {
+    const started = startTarget(spec, {
+      onLine: handleTargetLine,
+      onError: (err) => {
+        logger.error('Failed to start target', { error: err.message });
+        endSession(1);
+      },
+      onClose: (code) => {
+        if (started !== activeTarget || ended) return;
+        if (crashing) {
+          handleCrashExit();
+          return;
+        }
+        logger.info('Target process exited', { code });
+        endSession(code ?? 0);
+      },
+    });
+    return started;
+  };
+
+  // Kill the target; its close handler decides whether it comes back
+  const crashTarget = (trigger: CrashTrigger) => {
+    const signal = crashConfig?.signal ?? 'SIGKILL';
+    crashing = true;
+    crashCount++;
+    if (crashConfig?.restart) {
+      restartQueue = [];
+    }
+    logger.info('Crashing target', { pid: activeTarget.pid, signal, trigger, inFlight: inFlight.size });
+    recorder.recordTargetCrash(activeTarget.pid, signal, trigger, inFlight.size, backend);
+    activeTarget.kill(signal);
+  };
+
+  const handleCrashExit = () => {
+    // Whatever the target was working on is lost
+    for (const [callKey, id] of inFlight) {
+      const pending = pendingChaos.get(callKey);
+      pendingChaos.delete(callKey);
+      if (crashConfig?.errorPending && pending?.chaos.timeoutMs === undefined) {
+        respondWithError(
+          id,
+          { code: -32000, message: 'Connection closed: server process crashed' },
+          { ...pending?.chaos, seed: injector?.getSeed(), crashed: true }
+        );
+      }
+    }
+    inFlight.clear();
+
+    if (!crashConfig?.restart) {
+      logger.info('Target crashed, ending session');
+      endSession(1);
+      return;
+    }
+
+    schedule(() => {
+      crashing = false;
+      activeTarget = spawnTarget();
+
+      if (initializeLine) {
+        replayId = `mcp-chaos-replay-${crashCount}`;
+        activeTarget.send(JSON.stringify({ ...JSON.parse(initializeLine), id: replayId }));
+        activeTarget.send(JSON.stringify({ jsonrpc: '2.0', method: 'notifications/initialized' }));
+      } else {
+        flushRestartQueue();
+      }
+
+      recorder.recordTargetRestart(activeTarget.pid, crashCount, initializeLine !== undefined, backend);
+      crasher?.start();
+    }, crashConfig.restartDelayMs ?? 0);
+  };
+
+  const createCrasher = (config: ChaosConfig | undefined) => config?.crash
+    ? new CrashScheduler(config.crash, injector?.getSeed() ?? Date.now(), crashTarget)
+    : undefined;
+
+  let crasher = createCrasher(chaosConfig);
+
+  let activeTarget = spawnTarget();
+  crasher?.start();
+
+  // Swap chaos configs without restarting the session; invalid configs are rejected
+  const reloadChaos = (source: 'file' | 'agent', next: ChaosConfig | undefined) => {
+    const { errors, warnings } = validateChaosConfig(next ?? {});
+    for (const warning of warnings) {
+      logger.warn('Chaos config warning', warning);
+    }
+    if (errors.length > 0) {
+      for (const error of errors) {
+        logger.error('Invalid chaos config, keeping the current one', error);
+      }
+      return;
+    }
+
+    // An empty config turns chaos off while keeping the session's seed and call counts
+    const resolved = next ? resolvePresets(next) : undefined;
+    const config: ChaosConfig = { ...resolved, seed: resolved?.seed ?? injector?.getSeed() ?? Date.now() };
+    logger.info('Reloading chaos config', { source });
+    recorder.recordChaosReload(source, config, backend);
+
+    if (injector) {
+      injector.reload(config);
+    } else {
+      injector = createInjector(config);
+    }
+
+    notifier?.stop();
+    notifier = createNotifier(config);
+    if (handshakeDone) {
+      notifier?.start();
+    }
+
+    // A crash already under way finishes with the old settings
+    crasher?.stop();
+    crashConfig = config.crash;
+    crasher = createCrasher(config);
+    if (!crashing) {
+      crasher?.start();
+    }
+  };
+
+  // Re-read the file whenever it changes
+  const onConfigChange = (curr: Stats, prev: Stats) => {
+    if (curr.mtimeMs === prev.mtimeMs || !inject) return;
+    try {
+      reloadChaos('file', resolvePayloadFiles(JSON.parse(readFileSync(inject, 'utf-8')), dirname(resolve(inject))));
+    } catch (err) {
+      logger.error('Failed to reload chaos config', { path: inject, error: String(err) });
+    }
+  };
+  const watchesFile = inject !== undefined && !isPresetReference(inject);
+  let profilePoll: NodeJS.Timeout | undefined;
+
+  if (watchesFile) {
+    watchFile(inject, { interval: 500 }, onConfigChange).unref();
+  } else if (agentDbId) {
+    // Poll the agent's profile so edits made through PATCH /api/agents/:id apply to this session
+    let profile = dbQueries.getAgent(agentDbId)?.chaos_profile ?? null;
+    profilePoll = setInterval(() => {
+      const latest = dbQueries.getAgent(agentDbId)?.chaos_profile ?? null;
+      if (latest === profile) return;
+      profile = latest;
+      try {
+        reloadChaos('agent', latest ? JSON.parse(latest) : undefined);
+      } catch (err) {
+        logger.error('Failed to reload chaos profile', { agentId: agentDbId, error: String(err) });
+      }
+    }, 1000).unref();
+  }
+
+  // Tear everything down once, whichever side ended the session
+  const endSession = (code: number) => {
+    if (ended) return;
+    ended = true;
+    logger.info('Ending trace session', { path: trace, backend, code });
+    notifier?.stop();
+    crasher?.stop();
+    clearInterval(profilePoll);
+    for (const timer of timers) {
+      clearTimeout(timer);
+    }
+    timers.clear();
+    if (watchesFile) {
+      unwatchFile(inject, onConfigChange);
+    }
+    if (!settings.recorder) {
+      recorder.end();
+    }
+    activeTarget.kill();
+    onEnd(code);
+  };
+
+  client.onClose(() => endSession(0));
+
+  return { end: endSession };
+}
@@ -1,6 +1,8 @@
 import type Database from 'better-sqlite3';
 import { v4 as uuidv4 } from 'uuid';
 import type { TraceEvent } from '../../tracer/types.js';
+import { isToolError } from '../../utils/result.js';
+import { formatTargetSpec, maskTargetSpec, parseTargetSpec, type TargetSpec } from '../../transport/spec.js';
 
 export interface Project {
   id: string;
@@ -14,10 +16,25 @@ export interface Agent {
   project_id: string;
   name: string;
   target: string;
+  target_spec: string | null;
   chaos_profile: string | null;
   created_at: string;
 }
 
+/**
+ * An agent's target spec, falling back to parsing its command line
+ */
+export function agentTargetSpec(agent: Agent): TargetSpec {
+  return agent.target_spec ? JSON.parse(agent.target_spec) : parseTargetSpec(agent.target);
+}
+
+/**
+ * An agent as the API returns it: the spec parsed, any stored secret masked
+ */
+export function publicAgent(agent: Agent): Omit<Agent, 'target_spec'> & { target_spec: TargetSpec } {
+  return { ...agent, target_spec: maskTargetSpec(agentTargetSpec(agent)) };
+}
+
 export interface Run {
   id: string;
   agent_id: string | null;
@@ -47,9 +64,11 @@ export interface TraceEventRow {
   params_json: string | null;
   result_json: string | null;
   error_json: string | null;
+  is_error: number; // 1 for JSON-RPC errors, isError tool results and timeouts
   latency_ms: number | null;
   timestamp: string;
   chaos_applied: string | null;
+  backend: string | null;
 }
 
 export interface RunFilters {
@@ -104,13 +123,13 @@ export class RunQueries {
 
   // ========== Agent Methods ==========
 
-  createAgent(projectId: string, name: string, target: string, chaosProfile?: object): Agent {
+  createAgent(projectId: string, name: string, spec: TargetSpec, chaosProfile?: object): Agent {
     const id = uuidv4();
     const stmt = this.db.prepare(`
-      INSERT INTO agents (id, project_id, name, target, chaos_profile)
-      VALUES (?, ?, ?, ?, ?)
+      INSERT INTO agents (id, project_id, name, target, target_spec, chaos_profile)
+      VALUES (?, ?, ?, ?, ?, ?)
     `);
-    stmt.run(id, projectId, name, target, chaosProfile ? JSON.stringify(chaosProfile) : null);
+    stmt.run(id, projectId, name, formatTargetSpec(spec), JSON.stringify(spec), chaosProfile ? JSON.stringify(chaosProfile) : null);
     return this.getAgent(id)!;
   }
 
@@ -129,6 +148,12 @@ export class RunQueries {
     return stmt.all(projectId) as Agent[];
   }
 
+  updateAgentChaosProfile(id: string, chaosProfile: object | null): Agent | null {
+    const stmt = this.db.prepare('UPDATE agents SET chaos_profile = ? WHERE id = ?');
+    stmt.run(chaosProfile ? JSON.stringify(chaosProfile) : null, id);
+    return this.getAgent(id);
+  }
+
   deleteAgent(id: string): boolean {
     const stmt = this.db.prepare('DELETE FROM agents WHERE id = ?');
     const result = stmt.run(id);
@@ -276,8 +301,8 @@ export class RunQueries {
     const stmt = this.db.prepare(`
       INSERT INTO trace_events (
         run_id, event_type, method, tool_name, params_json,
-        result_json, error_json, latency_ms, timestamp, chaos_applied
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        result_json, error_json, is_error, latency_ms, timestamp, chaos_applied, backend
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `);
 
     let method: string | null = null;
@@ -285,6 +310,7 @@ export class RunQueries {
     let params: string | null = null;
     let result: string | null = null;
     let error: string | null = null;
+    let failed = false;
     let latency: number | null = null;
     let chaos: string | null = null;
 
@@ -294,13 +320,16 @@ export class RunQueries {
     } else if (event.t === 'rpc_response') {
       result = event.result ? JSON.stringify(event.result) : null;
       error = event.error ? JSON.stringify(event.error) : null;
+      failed = isToolError(event.result);
       latency = event.latencyMs ?? null;
+      chaos = event.chaos ? JSON.stringify(event.chaos) : null;
     } else if (event.t === 'tool_call') {
       toolName = event.tool;
       params = event.args ? JSON.stringify(event.args) : null;
     } else if (event.t === 'tool_result') {
       result = event.result ? JSON.stringify(event.result) : null;
       error = event.error ? JSON.stringify(event.error) : null;
+      failed = !event.ok;
       latency = event.latencyMs;
       chaos = event.chaos ? JSON.stringify(event.chaos) : null;
     } else if (event.t === 'stress_mutation') {
@@ -313,6 +342,40 @@ export class RunQueries {
       result = event.result ? JSON.stringify(event.result) : null;
       error = event.error ? JSON.stringify(event.error) : null;
       latency = event.latencyMs;
+    } else if (event.t === 'chaos_phase') {
+      params = JSON.stringify({
+        phase: event.phase,
+        index: event.index,
+        previous: event.previous,
+        callCount: event.callCount,
+      });
+    } else if (event.t === 'chaos_notification') {
+      method = event.method;
+      params = JSON.stringify({ params: event.params, callCount: event.callCount });
+    } else if (event.t === 'target_crash') {
+      params = JSON.stringify({
+        pid: event.pid,
+        signal: event.signal,
+        trigger: event.trigger,
+        inFlight: event.inFlight,
+      });
+    } else if (event.t === 'target_restart') {
+      params = JSON.stringify({
+        pid: event.pid,
+        crashes: event.crashes,
+        replayedInitialize: event.replayedInitialize,
+      });
+    } else if (event.t === 'backend_start') {
+      params = JSON.stringify({
+        target: event.target,
+        prefix: event.prefix,
+        chaosConfig: event.chaosConfig,
+      });
+    } else if (event.t === 'transport_error') {
+      params = JSON.stringify({ from: event.from, excerpt: event.excerpt, length: event.length });
+      error = JSON.stringify({ message: event.error });
+    } else if (event.t === 'chaos_reload') {
+      params = JSON.stringify({ source: event.source, chaosConfig: event.chaosConfig });
     } else if (event.t === 'chat_message') {
       // Store chat message with role and content
       params = JSON.stringify({
@@ -330,9 +393,11 @@ export class RunQueries {
       params,
       result,
       error,
+      error !== null || failed ? 1 : 0,
       latency,
       event.ts,
-      chaos
+      chaos,
+      'backend' in event ? event.backend ?? null : null
     );
   }
 
@@ -2,6 +2,7 @@ import Database from 'better-sqlite3';
 import { dirname, join } from 'path';
 import { mkdirSync } from 'fs';
 import { fileURLToPath } from 'url';
+import { parseTargetSpec } from '../../transport/spec.js';
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 const DB_PATH = join(__dirname, '../../../data/mcp-debug.db');
@@ -30,7 +31,8 @@ export function initDatabase(): Database.Database {
       id TEXT PRIMARY KEY,
       project_id TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
       name TEXT NOT NULL,
-      target TEXT NOT NULL,
+      target TEXT NOT NULL, -- Command line or URL, for display
+      target_spec TEXT, -- JSON TargetSpec: command, args, env, cwd, secret
       chaos_profile TEXT,
       created_at TEXT NOT NULL DEFAULT (datetime('now')),
       UNIQUE(project_id, name)
@@ -66,9 +68,11 @@ export function initDatabase(): Database.Database {
       params_json TEXT,
       result_json TEXT,
       error_json TEXT,
+      is_error INTEGER NOT NULL DEFAULT 0, -- JSON-RPC error, isError tool result or timeout
       latency_ms INTEGER,
       timestamp TEXT NOT NULL,
-      chaos_applied TEXT
+      chaos_applied TEXT,
+      backend TEXT -- Aggregating proxy: which backend the event belongs to
     );
 
     CREATE INDEX IF NOT EXISTS idx_projects_name ON projects(name);
@@ -82,6 +86,37 @@ export function initDatabase(): Database.Database {
     CREATE INDEX IF NOT EXISTS idx_events_tool ON trace_events(tool_name);
   `);
 
+  // Columns added since the tables were first created; older databases gain them here
+  const columns = (table: string) => new Set(
+    (db.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>).map((column) => column.name)
+  );
+
+  // Backfilled by parsing the command line agents used to be stored as
+  if (!columns('agents').has('target_spec')) {
+    db.exec('ALTER TABLE agents ADD COLUMN target_spec TEXT');
+    const agents = db.prepare('SELECT id, target FROM agents').all() as Array<{ id: string; target: string }>;
+    const update = db.prepare('UPDATE agents SET target_spec = ? WHERE id = ?');
+    db.transaction(() => {
+      for (const { id, target } of agents) {
+        update.run(JSON.stringify(parseTargetSpec(target)), id);
+      }
+    })();
+  }
+
+  const eventColumns = columns('trace_events');
+  // Backfilled from error_json and isError results
+  if (!eventColumns.has('is_error')) {
+    db.exec(`
+      ALTER TABLE trace_events ADD COLUMN is_error INTEGER NOT NULL DEFAULT 0;
+      UPDATE trace_events SET is_error = 1
+        WHERE error_json IS NOT NULL
+           OR (CASE WHEN json_valid(result_json) THEN json_extract(result_json, '$.isError') END) = 1;
+    `);
+  }
+  if (!eventColumns.has('backend')) {
+    db.exec('ALTER TABLE trace_events ADD COLUMN backend TEXT');
+  }
+
   return db;
 }
 
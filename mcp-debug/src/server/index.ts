@@ -12,6 +12,7 @@ import { createTracesRouter } from './routes/traces.js';
 import { createProjectsRouter } from './routes/projects.js';
 import { createAgentsRouter } from './routes/agents.js';
 import { createStressRouter } from './routes/stress.js';
+import { createChaosRouter } from './routes/chaos.js';
 import { logger } from '../utils/logger.js';
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
@@ -68,13 +69,15 @@ export async function startServer(options: ServerOptions): Promise<void> {
 
   // Create Express app
   const app = express();
-  app.use(express.json());
+  // Trace events carry whole tool results, which can run to megabytes
+  app.use(express.json({ limit: '50mb' }));
 
   // API routes
   app.use('/api/projects', createProjectsRouter(queries));
   app.use('/api/agents', createAgentsRouter(queries));
   app.use('/api/runs', createRunsRouter(queries));
   app.use('/api/traces', createTracesRouter(queries));
+  app.use('/api/chaos', createChaosRouter());
   app.use('/api', createStressRouter(queries));
 
   // Internal notification endpoint (for proxy to notify about events)
@@ -1,5 +1,6 @@
 import { Router } from 'express';
-import type { RunQueries } from '../db/queries.js';
+import { publicAgent, type RunQueries } from '../db/queries.js';
+import { validateChaosConfig } from '../../chaos/schema.js';
 
 export function createAgentsRouter(queries: RunQueries): Router {
   const router = Router();
@@ -12,13 +13,42 @@ export function createAgentsRouter(queries: RunQueries): Router {
         res.status(404).json({ error: 'Agent not found' });
         return;
       }
-      res.json({ agent });
+      res.json({ agent: publicAgent(agent) });
     } catch (err) {
       console.error('Error getting agent:', err);
       res.status(500).json({ error: 'Failed to get agent' });
     }
   });
 
+  // Replace an agent's chaos profile (null clears it). Running proxies for
+  // the agent pick up the change.
+  router.patch('/:id', (req, res) => {
+    try {
+      const { chaosProfile } = req.body;
+      if (chaosProfile === undefined) {
+        res.status(400).json({ error: 'chaosProfile is required' });
+        return;
+      }
+
+      const validation = chaosProfile === null ? undefined : validateChaosConfig(chaosProfile);
+      if (validation && validation.errors.length > 0) {
+        res.status(400).json({ error: 'Invalid chaos profile', issues: validation.errors });
+        return;
+      }
+
+      const agent = queries.updateAgentChaosProfile(req.params.id, chaosProfile);
+      if (!agent) {
+        res.status(404).json({ error: 'Agent not found' });
+        return;
+      }
+      const warnings = validation?.warnings ?? [];
+      res.json({ agent: publicAgent(agent), ...(warnings.length > 0 && { warnings }) });
+    } catch (err) {
+      console.error('Error updating agent:', err);
+      res.status(500).json({ error: 'Failed to update agent' });
+    }
+  });
+
   // Delete an agent
   router.delete('/:id', (req, res) => {
     try {
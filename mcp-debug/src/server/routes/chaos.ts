@@ -0,0 +1,18 @@
+import { Router } from 'express';
+import { CHAOS_PRESETS } from '../../chaos/presets.js';
+
+export function createChaosRouter(): Router {
+  const router = Router();
+
+  // List built-in chaos presets
+  router.get('/presets', (req, res) => {
+    const presets = Object.entries(CHAOS_PRESETS).map(([name, { description, config }]) => ({
+      name,
+      description,
+      config,
+    }));
+    res.json({ presets });
+  });
+
+  return router;
+}
@@ -1,5 +1,7 @@
 import { Router } from 'express';
-import type { RunQueries } from '../db/queries.js';
+import { publicAgent, type RunQueries } from '../db/queries.js';
+import { validateChaosConfig, type ChaosIssue } from '../../chaos/schema.js';
+import { parseTargetSpec, targetInputSchema, toTargetSpec } from '../../transport/spec.js';
 
 export function createProjectsRouter(queries: RunQueries): Router {
   const router = Router();
@@ -78,7 +80,7 @@ export function createProjectsRouter(queries: RunQueries): Router {
         return;
       }
       const agents = queries.listAgents(req.params.id);
-      res.json({ agents });
+      res.json({ agents: agents.map(publicAgent) });
     } catch (err) {
       console.error('Error listing agents:', err);
       res.status(500).json({ error: 'Failed to list agents' });
@@ -94,12 +96,34 @@ export function createProjectsRouter(queries: RunQueries): Router {
         return;
       }
 
-      const { name, target, chaosProfile } = req.body;
+      const { name, target, env, cwd, secret, chaosProfile } = req.body;
       if (!name || !target) {
         res.status(400).json({ error: 'name and target are required' });
         return;
       }
 
+      // A command-line target may bring its env, cwd and secret alongside
+      const input = typeof target === 'string' && (env !== undefined || cwd !== undefined || secret !== undefined)
+        ? { ...parseTargetSpec(target), env, cwd, secret }
+        : target;
+      const parsed = targetInputSchema.safeParse(input);
+      if (!parsed.success) {
+        const issues = parsed.error.issues.map((issue) => ({ path: issue.path.join('.'), message: issue.message }));
+        res.status(400).json({ error: 'Invalid target', issues });
+        return;
+      }
+
+      // null, as in the agent PATCH route, means no profile
+      const warnings: ChaosIssue[] = [];
+      if (chaosProfile !== undefined && chaosProfile !== null) {
+        const validation = validateChaosConfig(chaosProfile);
+        if (validation.errors.length > 0) {
+          res.status(400).json({ error: 'Invalid chaos profile', issues: validation.errors });
+          return;
+        }
+        warnings.push(...validation.warnings);
+      }
+
       // Check if agent with this name already exists in project
       const existing = queries.getAgentByName(req.params.id, name);
       if (existing) {
@@ -107,8 +131,8 @@ export function createProjectsRouter(queries: RunQueries): Router {
         return;
       }
 
-      const agent = queries.createAgent(req.params.id, name, target, chaosProfile);
-      res.status(201).json({ agent });
+      const agent = queries.createAgent(req.params.id, name, toTargetSpec(parsed.data), chaosProfile);
+      res.status(201).json({ agent: publicAgent(agent), ...(warnings.length > 0 && { warnings }) });
     } catch (err) {
       console.error('Error creating agent:', err);
       res.status(500).json({ error: 'Failed to create agent' });
@@ -1,5 +1,6 @@
 import { Router, Request, Response } from 'express';
 import type { RunQueries, RunFilters } from '../db/queries.js';
+import { validateChaosConfig, type ChaosIssue } from '../../chaos/schema.js';
 
 export function createRunsRouter(queries: RunQueries): Router {
   const router = Router();
@@ -47,8 +48,19 @@ export function createRunsRouter(queries: RunQueries): Router {
         return;
       }
 
+      // null, as in the agent PATCH route, means no profile
+      const warnings: ChaosIssue[] = [];
+      if (chaosProfile !== undefined && chaosProfile !== null) {
+        const validation = validateChaosConfig(chaosProfile);
+        if (validation.errors.length > 0) {
+          res.status(400).json({ error: 'Invalid chaos profile', issues: validation.errors });
+          return;
+        }
+        warnings.push(...validation.warnings);
+      }
+
       const run = queries.createRun(target, chaosProfile, name);
-      res.status(201).json({ run });
+      res.status(201).json({ run, ...(warnings.length > 0 && { warnings }) });
     } catch (err) {
       console.error('Error creating run:', err);
       res.status(500).json({ error: 'Failed to create run' });
@@ -1,8 +1,9 @@
 import { Router } from 'express';
-import { spawn } from 'child_process';
-import type { RunQueries } from '../db/queries.js';
+import { agentTargetSpec, type RunQueries } from '../db/queries.js';
 import { generateMutations, type JsonSchema } from '../../stress/schema-mutator.js';
 import { logger } from '../../utils/logger.js';
+import { isRemoteTarget, targetSpecProblems } from '../../transport/spec.js';
+import { spawnTarget } from '../../transport/target.js';
 
 interface Tool {
   name: string;
@@ -45,41 +46,6 @@ function classifyOutcome(
   return 'graceful_fail';
 }
 
-/**
- * Parse a command string into command and args
- */
-function parseCommand(target: string): { cmd: string; args: string[] } {
-  const parts: string[] = [];
-  let current = '';
-  let inQuote = false;
-  let quoteChar = '';
-
-  for (let i = 0; i < target.length; i++) {
-    const char = target[i];
-    if (inQuote) {
-      if (char === quoteChar) {
-        inQuote = false;
-      } else {
-        current += char;
-      }
-    } else if (char === '"' || char === "'") {
-      inQuote = true;
-      quoteChar = char;
-    } else if (char === ' ' || char === '\t') {
-      if (current) {
-        parts.push(current);
-        current = '';
-      }
-    } else {
-      current += char;
-    }
-  }
-  if (current) parts.push(current);
-
-  const [cmd, ...args] = parts;
-  return { cmd, args };
-}
-
 /**
  * Run stress tests against an agent's target server
  */
@@ -90,8 +56,13 @@ async function runStressTests(queries: RunQueries, agentId: string, runId: strin
     return;
   }
 
-  const { cmd: targetCmd, args: targetArgs } = parseCommand(agent.target);
-  if (!targetCmd) {
+  const spec = agentTargetSpec(agent);
+  const problems = targetSpecProblems(spec);
+  if (isRemoteTarget(spec.command)) {
+    problems.push('Stress tests need a command target, not a URL');
+  }
+  if (problems.length > 0) {
+    logger.error('Cannot stress test target', { agentId, runId, problems });
     queries.updateRunStatus(runId, 'failed');
     return;
   }
@@ -99,9 +70,7 @@ async function runStressTests(queries: RunQueries, agentId: string, runId: strin
   logger.info('Starting stress test', { agentId, runId, target: agent.target });
   queries.updateRunStatus(runId, 'running');
 
-  const targetProcess = spawn(targetCmd, targetArgs, {
-    stdio: ['pipe', 'pipe', 'pipe'],
-  });
+  const targetProcess = spawnTarget(spec);
 
   targetProcess.on('error', (err) => {
     logger.error('Failed to spawn target process', { error: err.message });
@@ -10,6 +10,16 @@ import type {
   TraceCall,
 } from './types.js';
 import type { RunQueries } from '../server/db/queries.js';
+import { isToolError } from '../utils/result.js';
+import { idKey } from '../utils/jsonrpc.js';
+
+// How much of a malformed line a transport_error event keeps
+const EXCERPT_LENGTH = 500;
+
+// Requests are matched to responses per direction, so the agent's id 1 and the target's id 1 don't collide
+function pendingKey(id: string | number, origin?: 'target'): string {
+  return origin ? `${origin}:${idKey(id)}` : idKey(id);
+}
 
 // Simple notification client for WebSocket updates
 async function notifyServer(
@@ -114,7 +124,13 @@ export class TraceRecorder {
     }
   }
 
-  recordRpcRequest(id: string | number | undefined, method: string, params: unknown): void {
+  recordRpcRequest(
+    id: string | number | undefined,
+    method: string,
+    params: unknown,
+    backend?: string,
+    origin?: 'target'
+  ): void {
     const ts = new Date().toISOString();
 
     this.writeEvent({
@@ -123,18 +139,21 @@ export class TraceRecorder {
       method,
       params,
       ts,
+      origin,
+      backend,
     });
 
     // Track for latency calculation
     if (id !== undefined) {
       const callId = String(id);
-      this.pendingCalls.set(callId, { startTime: Date.now() });
+      const pending: { startTime: number; tool?: string } = { startTime: Date.now() };
+      this.pendingCalls.set(pendingKey(id, origin), pending);
 
       // If this is a tools/call, extract tool name
       if (method === 'tools/call') {
         const toolName = (params as { name?: string })?.name;
         if (toolName) {
-          this.pendingCalls.get(callId)!.tool = toolName;
+          pending.tool = toolName;
 
           // Also emit tool_call event
           this.writeEvent({
@@ -143,6 +162,7 @@ export class TraceRecorder {
             args: (params as { arguments?: unknown })?.arguments,
             ts,
             callId,
+            backend,
           });
         }
       }
@@ -153,36 +173,46 @@ export class TraceRecorder {
     id: string | number | undefined,
     result: unknown,
     error: RpcError | undefined,
-    chaos?: ChaosApplied
+    chaos?: ChaosApplied,
+    backend?: string,
+    origin?: 'target'
   ): void {
     const ts = new Date().toISOString();
     let latencyMs: number | undefined;
+    let isToolCall = false;
 
     if (id !== undefined) {
       const callId = String(id);
-      const pending = this.pendingCalls.get(callId);
+      const pending = this.pendingCalls.get(pendingKey(id, origin));
 
       if (pending) {
         latencyMs = Date.now() - pending.startTime;
 
         // If this was a tool call, emit tool_result event
         if (pending.tool) {
+          isToolCall = true;
+          const timedOut = chaos?.timedOut ?? false;
+          const toolError = !error && isToolError(result);
+          const ok = !error && !toolError && !timedOut;
           this.callCount++;
-          if (error) this.errorCount++;
+          if (!ok) this.errorCount++;
 
           this.writeEvent({
             t: 'tool_result',
             callId,
-            ok: !error,
+            ok,
             result,
             error,
+            isError: toolError || undefined,
             ts,
             latencyMs,
+            timedOut: timedOut || undefined,
             chaos,
+            backend,
           });
         }
 
-        this.pendingCalls.delete(callId);
+        this.pendingCalls.delete(pendingKey(id, origin));
       }
     }
 
@@ -193,6 +223,122 @@ export class TraceRecorder {
       error,
       ts,
       latencyMs,
+      chaos: isToolCall ? undefined : chaos,
+      origin,
+      backend,
+    });
+  }
+
+  /**
+   * Record a line that could not be read as JSON-RPC
+   */
+  recordTransportError(from: 'agent' | 'target', error: string, line: string, backend?: string): void {
+    this.writeEvent({
+      t: 'transport_error',
+      ts: new Date().toISOString(),
+      from,
+      error,
+      excerpt: line.slice(0, EXCERPT_LENGTH),
+      length: line.length,
+      backend,
+    });
+  }
+
+  /**
+   * Record the chaos injector entering a new phase, timestamped when it began
+   */
+  recordChaosPhase(
+    phase: string,
+    index: number,
+    callCount: number,
+    previous?: string,
+    backend?: string,
+    at = Date.now()
+  ): void {
+    this.writeEvent({
+      t: 'chaos_phase',
+      ts: new Date(at).toISOString(),
+      phase,
+      index,
+      previous,
+      callCount,
+      backend,
+    });
+  }
+
+  /**
+   * Record a notification the chaos injector wrote to the agent
+   */
+  recordChaosNotification(method: string, params: unknown, callCount: number, backend?: string): void {
+    this.writeEvent({
+      t: 'chaos_notification',
+      ts: new Date().toISOString(),
+      method,
+      params,
+      callCount,
+      backend,
+    });
+  }
+
+  /**
+   * Record the chaos injector killing the target
+   */
+  recordTargetCrash(
+    pid: number | undefined,
+    signal: string,
+    trigger: 'calls' | 'time',
+    inFlight: number,
+    backend?: string
+  ): void {
+    this.writeEvent({
+      t: 'target_crash',
+      ts: new Date().toISOString(),
+      pid,
+      signal,
+      trigger,
+      inFlight,
+      backend,
+    });
+  }
+
+  /**
+   * Record the target coming back after a crash
+   */
+  recordTargetRestart(pid: number | undefined, crashes: number, replayedInitialize: boolean, backend?: string): void {
+    this.writeEvent({
+      t: 'target_restart',
+      ts: new Date().toISOString(),
+      pid,
+      crashes,
+      replayedInitialize,
+      backend,
+    });
+  }
+
+  /**
+   * Record a chaos config swapped in while the session was running
+   */
+  recordChaosReload(source: 'file' | 'agent', chaosConfig: ChaosConfig, backend?: string): void {
+    this.writeEvent({
+      t: 'chaos_reload',
+      ts: new Date().toISOString(),
+      source,
+      chaosConfig,
+      backend,
+    });
+  }
+
+  /**
+   * Record a backend of an aggregating proxy
+   */
+  recordBackendStart(backend: string, target: string, prefix: string, chaosConfig?: ChaosConfig): void {
+    this.writeEvent({
+      t: 'backend_start',
+      ts: new Date().toISOString(),
+      backend,
+      target,
+      prefix,
+      chaosConfig,
     });
   }
 
@@ -9,8 +9,32 @@ export interface RpcError {
 export interface ChaosApplied {
   delayMs?: number;
   errorInjected?: boolean;
+  errorKind?: 'tool'; // Injected error delivered as an isError tool result rather than a JSON-RPC error
   responseCorrupted?: boolean;
+  corruption?: CorruptionMode;
+  wireFaults?: WireFault[];
+  timedOut?: boolean;
+  timeoutMs?: number;
+  phase?: string;
+  failPattern?: FailPattern['type'];
+  matchedRule?: string;
+  hiddenTools?: string[];
+  drifted?: boolean;  // tools/list rewritten, or a call translated back from the drifted catalog
+  crashed?: boolean;  // In flight when the target was killed
+  throttled?: boolean; // Rejected by a rate limit; the target never saw it
+  retryAfterMs?: number;
+  adversarial?: AdversarialInjection;
   seed?: number;
+  callIndex?: number; // 1-based count of this method/tool's calls; with seed, fixes every decision
+}
+
+// An adversarial payload placed into a tool result. Offsets index into the
+// recorded result's content[content].text.
+export interface AdversarialInjection {
+  payload: string;    // corpus/<category>/<n>, payloads/<n> or file/<n>
+  content?: number;   // Set once placed
+  start?: number;
+  end?: number;
 }
 
 // Event types for JSONL trace format
@@ -22,7 +46,14 @@ export type TraceEvent =
   | SessionStartEvent
   | SessionEndEvent
   | StressMutationEvent
-  | ChatMessageEvent;
+  | ChatMessageEvent
+  | ChaosPhaseEvent
+  | ChaosNotificationEvent
+  | TargetCrashEvent
+  | TargetRestartEvent
+  | ChaosReloadEvent
+  | BackendStartEvent
+  | TransportErrorEvent;
 
 export interface RpcRequestEvent {
   t: 'rpc_request';
@@ -30,6 +61,8 @@ export interface RpcRequestEvent {
   method: string;
   params?: unknown;
   ts: string;
+  origin?: 'target';  // Sent by the target to the agent
+  backend?: string;   // Aggregating proxy: the backend this event belongs to
 }
 
 export interface RpcResponseEvent {
@@ -39,6 +72,9 @@ export interface RpcResponseEvent {
   error?: RpcError;
   ts: string;
   latencyMs?: number;
+  chaos?: ChaosApplied; // Non-tool methods only; tool calls carry it on tool_result
+  origin?: 'target';  // Answers a request the target sent
+  backend?: string;   // Aggregating proxy: the backend this event belongs to
 }
 
 export interface ToolCallEvent {
@@ -47,17 +83,21 @@ export interface ToolCallEvent {
   args: unknown;
   ts: string;
   callId: string;
+  backend?: string;   // Aggregating proxy: the backend this event belongs to
 }
 
 export interface ToolResultEvent {
   t: 'tool_result';
   callId: string;
-  ok: boolean;
+  ok: boolean;        // False for JSON-RPC errors, isError results and timeouts
   result?: unknown;
   error?: RpcError;
+  isError?: boolean;  // The tool reported a failure in its result
   ts: string;
   latencyMs: number;
+  timedOut?: boolean;
   chaos?: ChaosApplied;
+  backend?: string;   // Aggregating proxy: the backend this event belongs to
 }
 
 export interface SessionStartEvent {
@@ -104,29 +144,243 @@ export interface ChatMessageEvent {
   }>;
 }
 
+export interface ChaosPhaseEvent {
+  t: 'chaos_phase';
+  ts: string;         // When the phase began; a time window's scheduled end, so it can predate the event before it
+  phase: string;      // Phase name, or 'base' once every phase has ended
+  index: number;      // Position in ChaosConfig.phases, -1 for the base rules
+  previous?: string;
+  callCount: number;  // Tool calls seen so far in the session
+  backend?: string;   // Aggregating proxy: the backend this event belongs to
+}
+
+export interface ChaosNotificationEvent {
+  t: 'chaos_notification';
+  ts: string;
+  method: string;     // Notification written to the agent by the proxy
+  params?: unknown;
+  callCount: number;  // Tool calls seen so far in the session
+  backend?: string;   // Aggregating proxy: the backend this event belongs to
+}
+
+export interface TargetCrashEvent {
+  t: 'target_crash';
+  ts: string;
+  pid?: number;
+  signal: string;
+  trigger: 'calls' | 'time';
+  inFlight: number;   // Requests the target had not answered
+  backend?: string;   // Aggregating proxy: the backend this event belongs to
+}
+
+export interface TargetRestartEvent {
+  t: 'target_restart';
+  ts: string;
+  pid?: number;
+  crashes: number;    // Crashes so far in the session
+  replayedInitialize: boolean;
+  backend?: string;   // Aggregating proxy: the backend this event belongs to
+}
+
+export interface ChaosReloadEvent {
+  t: 'chaos_reload';
+  ts: string;
+  source: 'file' | 'agent';
+  chaosConfig: ChaosConfig; // The config now in effect; no rules means chaos is off
+  backend?: string;   // Aggregating proxy: the backend this event belongs to
+}
+
+// Aggregating proxy: one backend behind it, recorded as the session starts
+export interface BackendStartEvent {
+  t: 'backend_start';
+  ts: string;
+  backend: string;
+  target: string;
+  prefix: string;     // Prepended to the backend's tool names
+  chaosConfig?: ChaosConfig;
+}
+
+// A line on the wire that is neither a JSON-RPC message nor a batch of them.
+// It is still forwarded; the excerpt keeps huge lines out of the trace.
+export interface TransportErrorEvent {
+  t: 'transport_error';
+  ts: string;
+  from: 'agent' | 'target';
+  error: string;      // Why the line was rejected
+  excerpt: string;    // Start of the line
+  length: number;     // Full length of the line
+  backend?: string;   // Aggregating proxy: the backend this event belongs to
+}
+
 // Chaos configuration
 export interface ChaosConfig {
+  extends?: string | string[];          // Built-in presets to start from; this config's keys override them
   seed?: number;
-  global?: ChaosRule;
+  global?: ChaosRule;                   // tools/call only
+  tools?: Record<string, ChaosRule>;
+  methods?: Record<string, ChaosRule>;  // Any JSON-RPC method, e.g. resources/read
+  rules?: MatchRule[];
+  phases?: ChaosPhase[];
+  drift?: DriftConfig;
+  notifications?: NotificationRule[];
+  crash?: CrashConfig;
+}
+
+// Kills the target mid-session, either when the `afterCalls`-th tool call
+// since the last start is forwarded or `atMs` after it started. Without
+// `restart` the proxy exits with the target, closing the agent's stream.
+export interface CrashConfig {
+  afterCalls?: number;
+  atMs?: number | { min: number; max: number }; // Fixed or seeded random time
+  signal?: NodeJS.Signals;      // Default SIGKILL
+  maxCrashes?: number;          // Default 1
+  restart?: boolean;            // Respawn the target and replay the initialize handshake
+  restartDelayMs?: number;
+  errorPending?: boolean;       // Answer in-flight requests with a connection error
+}
+
+// An unsolicited notification the proxy writes to the agent. It fires once
+// `atMs` after the proxy starts or once `afterCalls` tool calls have been
+// seen, and optionally repeats every `everyMs` / `everyCalls`.
+export interface NotificationRule {
+  method: string;                   // e.g. notifications/tools/list_changed
+  params?: Record<string, unknown>; // Merged over the generated params
+  atMs?: number;
+  everyMs?: number;
+  afterCalls?: number;
+  everyCalls?: number;
+  count?: number;                   // Notifications per firing, for bursts of log spam (default 1)
+  times?: number;                   // Stop after this many firings (default unlimited)
+}
+
+// Rewrites the tools/list catalog to mimic a server upgrade. Keys are the
+// target's real tool names; calls made against the drifted catalog are
+// translated back before they are forwarded.
+export interface DriftConfig {
+  renameTools?: Record<string, string>;                  // Real name -> advertised name
+  renameParams?: Record<string, Record<string, string>>; // Tool -> real param -> advertised param
+  addRequired?: Record<string, Record<string, unknown>>; // Tool -> new required param -> JSON schema
+  descriptions?: Record<string, string>;                 // Tool -> replacement description
+  reorder?: 'reverse' | 'shuffle';
+}
+
+// A window of the session with its own rules. Phases run in order; a phase
+// ends after `calls` tool calls or `durationMs`, whichever comes first, and
+// one with neither lasts forever. Once all phases end, the top-level
+// global/tools rules apply again.
+export interface ChaosPhase {
+  name?: string;
+  calls?: number;
+  durationMs?: number;
+  global?: ChaosRule;                   // tools/call only
   tools?: Record<string, ChaosRule>;
+  methods?: Record<string, ChaosRule>;  // Any JSON-RPC method, e.g. resources/read
+  rules?: MatchRule[];
+}
+
+// A rule that applies only to calls whose arguments match. Rules are tried
+// in order and the first match wins; it is layered over the global and
+// per-tool rules.
+export interface MatchRule extends ChaosRule {
+  name?: string;
+  method?: string;                      // JSON-RPC method (default tools/call)
+  tool?: string;                        // Restrict to one tool (omit for any tool)
+  match?: Record<string, ArgCondition>; // Argument path -> condition; all must hold.
+                                        // Paths address tool arguments, or params for other methods
+}
+
+// Paths are dotted argument paths (`options.limit`) or JSONPath expressions
+// (`$.files[*].path`). A condition holds if any selected value satisfies
+// every operator given.
+export interface ArgCondition {
+  equals?: unknown;
+  glob?: string;   // `*` and `?` stop at `/`; without `/`, matches the last path component
+  regex?: string;
+  gt?: number;
+  gte?: number;
+  lt?: number;
+  lte?: number;
+  exists?: boolean;
 }
 
 export interface ChaosRule {
   delayMs?: number | ProbabilisticValue;
   failRate?: number;
+  failPattern?: FailPattern;
   errorCode?: number;
   errorMessage?: string;
+  errorKind?: 'protocol' | 'tool'; // tools/call only: JSON-RPC error (default) or isError result
   corruptResponse?: boolean;
+  corruption?: Partial<Record<CorruptionMode, number>>; // Probability 0-1 per mode
   timeoutMs?: number | ProbabilisticValue;
+  timeoutMode?: 'error' | 'hang'; // Emit a timeout error (default) or never answer
+  hideTools?: string[];           // tools/list only: drop these tools and reject calls to them
+  wire?: Partial<Record<WireFault, number>>; // Probability 0-1 per fault
+  adversarial?: AdversarialRule;
+  rateLimit?: RateLimitRule;
 }
 
+// Token bucket: `requests` per `windowMs`, holding up to `burst` (default
+// `requests`). Calls over budget get an error with retryAfterMs in error.data.
+export interface RateLimitRule {
+  requests: number;
+  windowMs: number;
+  burst?: number;
+  scope?: 'tool' | 'global'; // One bucket per tool (default), or one shared by every call the rule covers
+}
+
+// Plants a payload in content[].text of tool results, to see whether the
+// agent follows instructions it finds in tool output
+export interface AdversarialRule {
+  rate: number;                   // Probability 0-1 per result
+  corpus?: string[];              // Built-in categories: prompt-injection, fake-tool-call, filler
+  payloads?: string[];            // Inline payloads
+  file?: string;                  // JSON array of strings, or one payload per line
+  position?: 'append' | 'prepend' | 'replace' | 'random'; // Default append
+}
+
+// Ways a real tool result can be degraded before it reaches the agent
+export type CorruptionMode =
+  | 'truncate'     // Cut the JSON line short so it no longer parses
+  | 'dropContent'  // Remove entries from result.content (or contents, messages, tools, ...)
+  | 'garbleText'   // Scramble characters inside content[].text (or contents, messages)
+  | 'wrongTypes'   // Swap value types inside structuredContent
+  | 'flipIsError'  // Invert result.isError
+  | 'emptyResult'; // Replace the result with an empty object
+
+// Framing faults applied to a response as it is written to the agent
+export type WireFault =
+  | 'splitFrame'   // Write the JSON line in several pieces
+  | 'garbageLine'  // Print a non-JSON-RPC line before the response
+  | 'duplicate'    // Send the response twice
+  | 'reorder'      // Hold the response until the next one has been sent
+  | 'wrongId';     // Replace the id with one no request used
+
+// Deterministic failure schedules, counted per tool with 1-based call numbers.
+// A call fails if it matches the pattern or loses the failRate draw.
+export type FailPattern =
+  | { type: 'nth'; n: number }      // Fail only call n
+  | { type: 'every'; n: number }    // Fail every nth call
+  | { type: 'after'; n: number }    // Succeed n calls, then fail until the proxy restarts
+  | { type: 'burst'; start: number; length: number; every?: number } // Fail `length` calls from `start`, repeating every `every` calls
+  | { type: 'flap'; up: number; down: number }; // Cycle of `up` successes then `down` failures
+
 export interface ProbabilisticValue {
   p: number;      // Probability 0-1
   value?: number; // Fixed value
-  min?: number;   // Or range
+  min?: number;   // Or range; with a distribution, clamps the sample
   max?: number;
+  distribution?: Distribution; // Or sample from a distribution
+  mean?: number;    // normal, exponential
+  stddev?: number;  // normal
+  median?: number;  // lognormal
+  sigma?: number;   // lognormal: spread of the log
+  scale?: number;   // pareto: smallest value
+  shape?: number;   // pareto: tail index, lower is heavier
 }
 
+export type Distribution = 'normal' | 'lognormal' | 'pareto' | 'exponential';
+
 // Legacy format for backward compatibility with UI
 export interface Trace {
   sessionId: string;
@@ -0,0 +1,201 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'http';
+import { randomUUID } from 'crypto';
+import { createInterface } from 'readline';
+import { Writable } from 'stream';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest, type JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+import { logger } from '../utils/logger.js';
+import { parseLine } from '../utils/jsonrpc.js';
+
+// Path clients connect to in --listen mode
+export const MCP_PATH = '/mcp';
+
+/**
+ * The agent side of a proxy session: JSON-RPC lines in, newline-delimited
+ * output back through `output`
+ */
+export interface ClientChannel {
+  readonly output: NodeJS.WritableStream;
+  onLine(listener: (line: string) => void): void;
+  onClose(listener: () => void): void;
+  close(): void;
+}
+
+/**
+ * The proxy's own stdin and stdout
+ */
+export function stdioClient(): ClientChannel {
+  const reader = createInterface({ input: process.stdin });
+  return {
+    output: process.stdout,
+    onLine: (listener) => {
+      reader.on('line', listener);
+    },
+    onClose: (listener) => {
+      reader.on('close', listener);
+    },
+    close: () => reader.close(),
+  };
+}
+
+/**
+ * A stream that hands each complete line written to it to `onLine`,
+ * however the writes were chunked. Strings are kept as written, so a
+ * multi-byte character split across writes survives, and only the new
+ * chunk is searched for a newline, so multi-megabyte lines stay cheap.
+ */
+export function lineWriter(onLine: (line: string) => void): Writable {
+  let buffered = '';
+  return new Writable({
+    decodeStrings: false,
+    write: (chunk: string | Buffer, _encoding, callback) => {
+      const text = chunk.toString();
+      let newline = text.indexOf('\n');
+      if (newline < 0) {
+        buffered += text;
+        callback();
+        return;
+      }
+
+      onLine(buffered + text.slice(0, newline));
+      let start = newline + 1;
+      while ((newline = text.indexOf('\n', start)) >= 0) {
+        onLine(text.slice(start, newline));
+        start = newline + 1;
+      }
+      buffered = text.slice(start);
+      callback();
+    },
+  });
+}
+
+/**
+ * One Streamable HTTP session. Output is re-split into lines and sent as
+ * messages; lines that no longer parse (truncated or garbage wire output)
+ * have no HTTP equivalent and are dropped. The transport batches responses
+ * itself, so a batch line is sent message by message.
+ */
+class HttpClientChannel implements ClientChannel {
+  readonly output: Writable;
+  private transport: StreamableHTTPServerTransport;
+  private lineListeners: Array<(line: string) => void> = [];
+  private closeListeners: Array<() => void> = [];
+
+  constructor(transport: StreamableHTTPServerTransport) {
+    this.transport = transport;
+
+    this.output = lineWriter((line) => this.deliver(line));
+
+    transport.onmessage = (message) => {
+      const line = JSON.stringify(message);
+      for (const listener of this.lineListeners) listener(line);
+    };
+    transport.onclose = () => {
+      for (const listener of this.closeListeners) listener();
+    };
+  }
+
+  onLine(listener: (line: string) => void): void {
+    this.lineListeners.push(listener);
+  }
+
+  onClose(listener: () => void): void {
+    this.closeListeners.push(listener);
+  }
+
+  close(): void {
+    void this.transport.close();
+  }
+
+  private deliver(line: string): void {
+    const parsed = parseLine(line);
+    if ('error' in parsed) {
+      logger.warn('Dropping malformed output for HTTP client', { sessionId: this.transport.sessionId, error: parsed.error, line: line.slice(0, 200) });
+      return;
+    }
+    for (const message of parsed.messages) {
+      this.transport.send(message as JSONRPCMessage).catch((err) => {
+        logger.warn('Failed to send message to HTTP client', { sessionId: this.transport.sessionId, error: String(err) });
+      });
+    }
+  }
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    req.setEncoding('utf-8');
+    req.on('data', (chunk: string) => (body += chunk));
+    req.on('end', () => resolve(body));
+    req.on('error', reject);
+  });
+}
+
+function sendError(res: ServerResponse, status: number, code: number, message: string): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({ jsonrpc: '2.0', error: { code, message }, id: null }));
+}
+
+/**
+ * Serve the Streamable HTTP transport on a port. Every initialize request
+ * without a session ID opens a new session, handed to `onClient`; later
+ * requests are routed by their Mcp-Session-Id header.
+ */
+export function serveHttpClients(port: number, onClient: (channel: ClientChannel) => void): Server {
+  const sessions = new Map<string, StreamableHTTPServerTransport>();
+
+  const server = createServer(async (req, res) => {
+    try {
+      if (new URL(req.url ?? '/', 'http://localhost').pathname !== MCP_PATH) {
+        sendError(res, 404, -32000, `Not found; MCP is served at ${MCP_PATH}`);
+        return;
+      }
+
+      const sessionId = req.headers['mcp-session-id'];
+      if (sessionId !== undefined) {
+        const transport = typeof sessionId === 'string' ? sessions.get(sessionId) : undefined;
+        if (!transport) {
+          sendError(res, 404, -32001, 'Session not found');
+          return;
+        }
+        await transport.handleRequest(req, res);
+        return;
+      }
+
+      // Only an initialize request may start a session
+      const body = req.method === 'POST' ? JSON.parse(await readBody(req)) : undefined;
+      const messages: unknown[] = Array.isArray(body) ? body : [body];
+      if (!messages.some((message) => isInitializeRequest(message))) {
+        sendError(res, 400, -32000, 'Bad Request: No valid session ID provided');
+        return;
+      }
+
+      // The session (and its run and target) starts only once the transport
+      // accepts the initialize; one it rejects, e.g. with a 406, leaves nothing behind.
+      // The transport reports the session before it delivers any message.
+      const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        onsessioninitialized: (id) => {
+          logger.info('Client session started', { sessionId: id });
+          sessions.set(id, transport);
+          const channel = new HttpClientChannel(transport);
+          channel.onClose(() => {
+            if (sessions.delete(id)) {
+              logger.info('Client session closed', { sessionId: id });
+            }
+          });
+          onClient(channel);
+        },
+      });
+      await transport.handleRequest(req, res, body);
+    } catch (err) {
+      logger.error('Failed to handle client request', { error: String(err) });
+      if (!res.headersSent) {
+        sendError(res, err instanceof SyntaxError ? 400 : 500, err instanceof SyntaxError ? -32700 : -32603, String(err));
+      }
+    }
+  });
+
+  server.listen(port);
+  return server;
+}
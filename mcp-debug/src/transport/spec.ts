@@ -0,0 +1,166 @@
+import { z } from 'zod';
+import { parseCommand } from '../utils/command.js';
+
+// Shown in place of a stored secret value by the API and UI
+export const SECRET_MASK = '********';
+
+/**
+ * A secret handed to the target: stored with the spec (`value`) or read from
+ * the proxy's own environment when the target starts (`fromEnv`). Command
+ * targets receive it in the `env` variable; remote targets as a bearer token.
+ */
+export interface TargetSecret {
+  env?: string;
+  value?: string;
+  fromEnv?: string;
+}
+
+/**
+ * How to reach an MCP server: a command with its args, env and working
+ * directory, or an http(s):// URL in `command` (env and cwd then don't apply)
+ */
+export interface TargetSpec {
+  command: string;
+  args?: string[];
+  env?: Record<string, string>;
+  cwd?: string;
+  secret?: TargetSecret;
+}
+
+const envName = z.string().regex(/^[A-Za-z_][A-Za-z0-9_]*$/, 'Not a valid environment variable name');
+
+const secretSchema = z.object({
+  env: envName.optional(),
+  value: z.string().min(1).optional(),
+  fromEnv: envName.optional(),
+}).strict().refine(
+  (secret) => (secret.value === undefined) !== (secret.fromEnv === undefined),
+  'Set exactly one of value and fromEnv'
+);
+
+export const targetSpecSchema = z.object({
+  command: z.string().min(1),
+  args: z.array(z.string()).optional(),
+  env: z.record(envName, z.string()).optional(),
+  cwd: z.string().min(1).optional(),
+  secret: secretSchema.optional(),
+}).strict().refine(
+  (spec) => isRemoteTarget(spec.command) || !spec.secret || spec.secret.env !== undefined,
+  { message: 'A command target needs secret.env to receive the secret in', path: ['secret', 'env'] }
+);
+
+// A target as users write it: a command line or URL, or a full spec
+export const targetInputSchema = z.union([z.string().min(1), targetSpecSchema]);
+
+/**
+ * Whether a target names a remote server rather than a command
+ */
+export function isRemoteTarget(target: string): boolean {
+  return /^https?:\/\//i.test(target);
+}
+
+/**
+ * Turn a command line (or URL) into a spec
+ */
+export function parseTargetSpec(target: string): TargetSpec {
+  if (isRemoteTarget(target)) {
+    return { command: target };
+  }
+  const { cmd, args } = parseCommand(target);
+  return { command: cmd, args };
+}
+
+/**
+ * Normalize a validated target input to a spec
+ */
+export function toTargetSpec(input: z.infer<typeof targetInputSchema>): TargetSpec {
+  return typeof input === 'string' ? parseTargetSpec(input) : input;
+}
+
+/**
+ * The command line a spec runs, quoted so parseTargetSpec() reads it back.
+ * Env and secrets are left out, so it is safe to record and display.
+ */
+export function formatTargetSpec(spec: TargetSpec): string {
+  return [spec.command, ...spec.args ?? []]
+    .map((part) => {
+      if (part !== '' && !/[\s"']/.test(part)) return part;
+      return part.includes("'") ? `"${part}"` : `'${part}'`;
+    })
+    .join(' ');
+}
+
+/**
+ * A copy of the spec with env values and any stored secret value masked;
+ * env often carries credentials too, so only its keys are shown
+ */
+export function maskTargetSpec(spec: TargetSpec): TargetSpec {
+  return {
+    ...spec,
+    ...(spec.env && { env: Object.fromEntries(Object.keys(spec.env).map((key) => [key, SECRET_MASK])) }),
+    ...(spec.secret?.value !== undefined && { secret: { ...spec.secret, value: SECRET_MASK } }),
+  };
+}
+
+/**
+ * The secret's value, read from the environment if it is a reference.
+ * Throws if the referenced variable is unset.
+ */
+export function resolveSecret(secret: TargetSecret): string {
+  if (secret.value !== undefined) return secret.value;
+  const value = secret.fromEnv !== undefined ? process.env[secret.fromEnv] : undefined;
+  if (value === undefined) {
+    throw new Error(`Secret environment variable ${secret.fromEnv} is not set`);
+  }
+  return value;
+}
+
+/**
+ * The environment a command target runs with: the proxy's own, plus the
+ * spec's env and secret
+ */
+export function targetEnv(spec: TargetSpec): Record<string, string> {
+  const env: Record<string, string> = {};
+  for (const [key, value] of Object.entries(process.env)) {
+    if (value !== undefined) env[key] = value;
+  }
+  Object.assign(env, spec.env);
+  if (spec.secret?.env) {
+    env[spec.secret.env] = resolveSecret(spec.secret);
+  }
+  return env;
+}
+
+/**
+ * Apply --env KEY=VALUE and --cwd from the command line on top of a spec
+ */
+export function withTargetOptions(spec: TargetSpec, options: { env?: string[]; cwd?: string }): TargetSpec {
+  const env = { ...spec.env };
+  for (const pair of options.env ?? []) {
+    const separator = pair.indexOf('=');
+    if (separator <= 0) {
+      throw new Error(`Expected KEY=VALUE, got "${pair}"`);
+    }
+    env[pair.slice(0, separator)] = pair.slice(separator + 1);
+  }
+  return {
+    ...spec,
+    ...(Object.keys(env).length > 0 && { env }),
+    ...(options.cwd !== undefined && { cwd: options.cwd }),
+  };
+}
+
+/**
+ * Everything wrong with a spec about to be started, including a secret
+ * whose environment variable is unset
+ */
+export function targetSpecProblems(spec: TargetSpec): string[] {
+  const parsed = targetSpecSchema.safeParse(spec);
+  if (!parsed.success) {
+    return parsed.error.issues.map((issue) => `${issue.path.join('.') || 'target'}: ${issue.message}`);
+  }
+  if (spec.secret?.fromEnv !== undefined && process.env[spec.secret.fromEnv] === undefined) {
+    return [`secret.fromEnv: ${spec.secret.fromEnv} is not set`];
+  }
+  return [];
+}
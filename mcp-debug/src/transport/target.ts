@@ -0,0 +1,242 @@
+import { spawn, type ChildProcess } from 'child_process';
+import { createInterface } from 'readline';
+import { StreamableHTTPClientTransport, StreamableHTTPError } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import type { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+import { logger } from '../utils/logger.js';
+import { isRemoteTarget, resolveSecret, targetEnv, type TargetSpec } from './spec.js';
+
+export type TargetKind = 'stdio' | 'streamable-http' | 'sse';
+
+// Callbacks a target reports back through; lines are serialized JSON-RPC messages
+export interface TargetHandlers {
+  onLine: (line: string) => void;
+  onClose: (code: number | null) => void;
+  onError: (error: Error) => void;
+}
+
+/**
+ * The MCP server the proxy talks to, seen as a stream of JSON-RPC lines
+ * regardless of the transport underneath
+ */
+export interface Target {
+  readonly pid?: number;  // stdio targets only
+  send(line: string): void;
+  // Stdio targets get the signal; remote targets drop their connection
+  kill(signal?: NodeJS.Signals): void;
+}
+
+/**
+ * Start a target: spawn a command, or connect to an http(s):// URL
+ */
+export function startTarget(spec: TargetSpec, handlers: TargetHandlers): Target {
+  return isRemoteTarget(spec.command) ? new RemoteTarget(spec, handlers) : new StdioTarget(spec, handlers);
+}
+
+/**
+ * A target as an MCP SDK transport, so an SDK client can talk to it the way
+ * the proxy does. A target that fails to connect reports the error and closes.
+ */
+export function targetTransport(spec: TargetSpec): Transport {
+  let target: Target | undefined;
+  const transport: Transport = {
+    start: async () => {
+      target = startTarget(spec, {
+        onLine: (line) => transport.onmessage?.(JSON.parse(line)),
+        onClose: () => transport.onclose?.(),
+        onError: (err) => {
+          transport.onerror?.(err);
+          target?.kill();
+        },
+      });
+    },
+    send: async (message) => target?.send(JSON.stringify(message)),
+    close: async () => target?.kill(),
+  };
+  return transport;
+}
+
+/**
+ * Spawn a command target with its env and working directory, without a shell.
+ * Throws if its secret can't be resolved.
+ */
+export function spawnTarget(spec: TargetSpec): ChildProcess {
+  logger.info('Starting target MCP server', { cmd: spec.command, args: spec.args ?? [], ...(spec.cwd && { cwd: spec.cwd }) });
+  return spawn(spec.command, spec.args ?? [], {
+    stdio: ['pipe', 'pipe', 'pipe'],
+    cwd: spec.cwd,
+    env: targetEnv(spec),
+  });
+}
+
+class StdioTarget implements Target {
+  private child: ChildProcess;
+
+  constructor(spec: TargetSpec, handlers: TargetHandlers) {
+    this.child = spawnTarget(spec);
+
+    this.child.on('error', handlers.onError);
+
+    // Writes can race a crash; the close handler deals with the fallout
+    this.child.stdin?.on('error', (err) => {
+      logger.debug('Target stdin error', { error: err.message });
+    });
+
+    // Handle target stderr (log it)
+    this.child.stderr?.on('data', (data: Buffer) => {
+      logger.debug(`[target stderr] ${data.toString().trim()}`);
+    });
+
+    createInterface({ input: this.child.stdout! }).on('line', handlers.onLine);
+    this.child.on('close', handlers.onClose);
+
+    logger.info('Started target MCP server', { pid: this.child.pid });
+  }
+
+  get pid(): number | undefined {
+    return this.child.pid;
+  }
+
+  send(line: string): void {
+    this.child.stdin?.write(line + '\n');
+  }
+
+  kill(signal?: NodeJS.Signals): void {
+    this.child.kill(signal);
+  }
+}
+
+/**
+ * A Streamable HTTP or legacy SSE server. URLs ending in /sse use SSE;
+ * anything else tries Streamable HTTP first and falls back to SSE if the
+ * first POST is refused with a 4xx, as the spec recommends for clients.
+ */
+class RemoteTarget implements Target {
+  private url: URL;
+  private requestInit: RequestInit;
+  private handlers: TargetHandlers;
+  private transport?: Transport;
+  private connected?: Promise<void>;
+  private closed = false;
+
+  constructor(spec: TargetSpec, handlers: TargetHandlers) {
+    this.url = new URL(spec.command);
+    this.handlers = handlers;
+    // A secret authenticates every request, the SSE stream included
+    this.requestInit = spec.secret ? { headers: { Authorization: `Bearer ${resolveSecret(spec.secret)}` } } : {};
+  }
+
+  send(line: string): void {
+    if (this.closed) return;
+
+    let message: JSONRPCMessage;
+    try {
+      message = JSON.parse(line);
+    } catch {
+      logger.warn('Dropping non-JSON line for remote target', { line: line.slice(0, 200) });
+      return;
+    }
+
+    // The first message (the agent's initialize) settles which transport the server speaks
+    if (!this.connected) {
+      this.connected = this.connect(message).then(() => {
+        // Killed while connecting: the connection is no longer wanted
+        if (this.closed) this.discardTransport();
+      }, (err) => {
+        if (this.closed) return;
+        this.handlers.onError(err instanceof Error ? err : new Error(String(err)));
+      });
+      return;
+    }
+
+    this.connected.then(() => this.transport?.send(message)).catch((err) => {
+      this.answerFailure(message, err);
+    });
+  }
+
+  kill(): void {
+    // Closing the transport reports the close, like a process exiting;
+    // requests it aborts are the caller's to answer
+    if (this.closed) return;
+    this.closed = true;
+    const transport = this.transport;
+    this.transport = undefined;
+    if (!transport) {
+      // Not connected yet; a connection still under way is discarded once it settles
+      setImmediate(() => this.handlers.onClose(null));
+      return;
+    }
+    void transport.close().finally(() => this.handlers.onClose(null));
+  }
+
+  private discardTransport(): void {
+    const transport = this.transport;
+    this.transport = undefined;
+    void transport?.close();
+  }
+
+  private async connect(first: JSONRPCMessage): Promise<void> {
+    if (!this.url.pathname.endsWith('/sse')) {
+      const transport = this.attach(new StreamableHTTPClientTransport(this.url, { requestInit: this.requestInit }), 'streamable-http');
+      await transport.start();
+      try {
+        await transport.send(first);
+        return;
+      } catch (err) {
+        const status = err instanceof StreamableHTTPError ? err.code : undefined;
+        if (status === undefined || status < 400 || status >= 500) throw err;
+        logger.info('Target refused Streamable HTTP, falling back to SSE', { url: this.url.href, status });
+        this.transport = undefined;
+        await transport.close();
+      }
+    }
+
+    const transport = this.attach(new SSEClientTransport(this.url, { requestInit: this.requestInit }), 'sse');
+    await transport.start();
+    await transport.send(first);
+  }
+
+  private attach(transport: Transport, kind: TargetKind): Transport {
+    logger.info('Connecting to target MCP server', { url: this.url.href, transport: kind });
+    this.transport = transport;
+
+    transport.onmessage = (message) => {
+      if (this.closed) return;
+      // Later requests must carry the negotiated version (Streamable HTTP only)
+      const result = 'result' in message ? message.result as { protocolVersion?: unknown; serverInfo?: unknown } : undefined;
+      if (typeof result?.protocolVersion === 'string' && result.serverInfo && transport.setProtocolVersion) {
+        transport.setProtocolVersion(result.protocolVersion);
+      }
+      this.handlers.onLine(JSON.stringify(message));
+    };
+    transport.onerror = (err) => {
+      logger.debug('Target transport error', { error: err.message });
+    };
+    transport.onclose = () => {
+      // A transport dropped during fallback is not the target going away
+      if (transport !== this.transport || this.closed) return;
+      this.closed = true;
+      this.handlers.onClose(null);
+    };
+    return transport;
+  }
+
+  /**
+   * A request the server never received still needs an answer
+   */
+  private answerFailure(message: JSONRPCMessage, err: unknown): void {
+    if (this.closed) return;
+    const error = err instanceof Error ? err.message : String(err);
+    if (!('id' in message) || !('method' in message)) {
+      logger.warn('Failed to send message to target', { error });
+      return;
+    }
+    logger.warn('Failed to send request to target', { method: message.method, error });
+    this.handlers.onLine(JSON.stringify({
+      jsonrpc: '2.0',
+      id: message.id,
+      error: { code: -32000, message: `Target request failed: ${error}` },
+    }));
+  }
+}
@@ -0,0 +1,39 @@
+/**
+ * Parse a command string into command and args
+ * Handles quoted strings properly
+ */
+export function parseCommand(target: string): { cmd: string; args: string[] } {
+  const parts: string[] = [];
+  let current = '';
+  let inQuote = false;
+  let quoteChar = '';
+
+  for (let i = 0; i < target.length; i++) {
+    const char = target[i];
+
+    if (inQuote) {
+      if (char === quoteChar) {
+        inQuote = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"' || char === "'") {
+      inQuote = true;
+      quoteChar = char;
+    } else if (char === ' ' || char === '\t') {
+      if (current) {
+        parts.push(current);
+        current = '';
+      }
+    } else {
+      current += char;
+    }
+  }
+
+  if (current) {
+    parts.push(current);
+  }
+
+  const [cmd, ...args] = parts;
+  return { cmd, args };
+}
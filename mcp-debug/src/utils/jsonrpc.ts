@@ -0,0 +1,57 @@
+import type { RpcError } from '../tracer/types.js';
+
+export type RequestId = string | number;
+
+// A message as it arrives on the wire, before anything vouches for its fields
+export interface JsonRpcMessage {
+  jsonrpc?: string;
+  id?: RequestId | null;
+  method?: string;
+  params?: unknown;
+  result?: unknown;
+  error?: RpcError;
+}
+
+// One line of wire traffic: a message, a batch of them, or why it is neither
+export type ParsedLine =
+  | { messages: JsonRpcMessage[]; batch: boolean }
+  | { error: string };
+
+function isMessage(value: unknown): value is JsonRpcMessage {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) &&
+    (typeof (value as JsonRpcMessage).method === 'string' || 'id' in value);
+}
+
+/**
+ * Parse a line as a JSON-RPC message or batch array
+ */
+export function parseLine(line: string): ParsedLine {
+  let value: unknown;
+  try {
+    value = JSON.parse(line);
+  } catch (err) {
+    return { error: `Invalid JSON: ${err instanceof Error ? err.message : String(err)}` };
+  }
+
+  if (Array.isArray(value)) {
+    if (value.length === 0) return { error: 'Empty batch' };
+    if (!value.every(isMessage)) return { error: 'Batch holds something other than JSON-RPC messages' };
+    return { messages: value, batch: true };
+  }
+  return isMessage(value) ? { messages: [value], batch: false } : { error: 'Not a JSON-RPC message' };
+}
+
+/**
+ * Params or a result as an object to read fields from; anything else
+ * (absent, an array, a scalar) has none
+ */
+export function fieldsOf(value: unknown): Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) ? value as Record<string, unknown> : {};
+}
+
+/**
+ * Map key for a request id that keeps 1 and "1" apart
+ */
+export function idKey(id: RequestId): string {
+  return JSON.stringify(id);
+}
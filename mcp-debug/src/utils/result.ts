@@ -0,0 +1,7 @@
+/**
+ * Whether a tool result reports a failure in-band (`isError: true`),
+ * as opposed to a JSON-RPC `error` response
+ */
+export function isToolError(result: unknown): boolean {
+  return typeof result === 'object' && result !== null && (result as { isError?: unknown }).isError === true;
+}
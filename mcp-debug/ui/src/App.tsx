@@ -2,6 +2,8 @@ import { useState, useEffect, useCallback } from 'react'
 import { DiffViewer } from './components/DiffViewer'
 import { ProjectView } from './components/ProjectView'
 import { GraphView } from './components/GraphView'
+import { describeChaos } from './utils/chaos'
+import { failureLabel } from './utils/events'
 import { api, liveConnection } from './api/client'
 import type { Run, TraceEvent, UpdateMessage } from './api/client'
 
@@ -251,6 +253,13 @@ function RunDetail({
     if (type === 'tool_result') return 'bg-blue-500/20 text-blue-300'
     if (type === 'rpc_request') return 'bg-purple-500/20 text-purple-300'
     if (type === 'rpc_response') return 'bg-orange-500/20 text-orange-300'
+    if (type === 'chaos_phase') return 'bg-amber-500/20 text-amber-300'
+    if (type === 'chaos_reload') return 'bg-amber-500/20 text-amber-300'
+    if (type === 'backend_start') return 'bg-sky-500/20 text-sky-300'
+    if (type === 'chaos_notification') return 'bg-yellow-500/20 text-yellow-300'
+    if (type === 'target_crash') return 'bg-red-500/20 text-red-300'
+    if (type === 'target_restart') return 'bg-teal-500/20 text-teal-300'
+    if (type === 'transport_error') return 'bg-rose-500/20 text-rose-300'
     return 'bg-slate-500/20 text-slate-300'
   }
 
@@ -258,7 +267,7 @@ function RunDetail({
   const avgLatency = events.filter(e => e.latency_ms !== null).length > 0
     ? Math.round(events.filter(e => e.latency_ms !== null).reduce((a, b) => a + (b.latency_ms || 0), 0) / events.filter(e => e.latency_ms !== null).length)
     : 0
-  const errors = events.filter(e => e.error_json).length
+  const errors = events.filter(e => e.is_error).length
   const chaosEvents = events.filter(e => e.chaos_applied).length
 
   return (
@@ -354,6 +363,9 @@ function RunDetail({
                   <div className={`px-2 py-0.5 rounded text-xs ${getEventTypeColor(event.event_type)}`}>
                     {event.event_type}
                   </div>
+                  {event.backend && (
+                    <span className="px-1.5 py-0.5 rounded text-xs font-mono bg-slate-600/50 text-slate-300">{event.backend}</span>
+                  )}
                   <div className={`px-2 py-1 rounded text-xs font-mono border ${getMethodColor(event.method)}`}>
                     {event.tool_name || event.method || '-'}
                   </div>
@@ -361,8 +373,10 @@ function RunDetail({
                   <div className={`text-sm font-mono ${getLatencyColor(event.latency_ms)}`}>
                     {event.latency_ms !== null ? `${event.latency_ms}ms` : '-'}
                   </div>
-                  {event.error_json && <span className="text-red-400 text-xs">Error</span>}
-                  {event.chaos_applied && <span className="text-orange-400 text-xs">Chaos</span>}
+                  {failureLabel(event) && <span className="text-red-400 text-xs">{failureLabel(event)}</span>}
+                  {describeChaos(event.chaos_applied).map(label => (
+                    <span key={label} className="px-1.5 py-0.5 rounded text-xs bg-orange-500/20 text-orange-300">{label}</span>
+                  ))}
                 </div>
               ))}
               {events.length === 0 && (
@@ -433,7 +447,9 @@ function RunDetail({
                     {selectedEvent.chaos_applied && (
                       <div>
                         <div className="text-slate-400 mb-1">Chaos Applied</div>
-                        <div className="text-orange-300">{selectedEvent.chaos_applied}</div>
+                        <pre className="bg-slate-900 p-2 rounded text-xs overflow-x-auto max-h-32 text-orange-300">
+                          {JSON.stringify(JSON.parse(selectedEvent.chaos_applied), null, 2)}
+                        </pre>
                       </div>
                     )}
                   </div>
@@ -7,11 +7,27 @@ export interface Project {
   created_at: string;
 }
 
+// A stored secret value comes back masked
+export interface TargetSecret {
+  env?: string;
+  value?: string;
+  fromEnv?: string;
+}
+
+export interface TargetSpec {
+  command: string;
+  args?: string[];
+  env?: Record<string, string>;
+  cwd?: string;
+  secret?: TargetSecret;
+}
+
 export interface Agent {
   id: string;
   project_id: string;
   name: string;
   target: string;
+  target_spec: TargetSpec;
   chaos_profile: string | null;
   created_at: string;
 }
@@ -45,9 +61,11 @@ export interface TraceEvent {
   params_json: string | null;
   result_json: string | null;
   error_json: string | null;
+  is_error: number;
   latency_ms: number | null;
   timestamp: string;
   chaos_applied: string | null;
+  backend: string | null;
 }
 
 export interface RunFilters {
@@ -93,7 +111,10 @@ export const api = {
       return res.json();
     },
 
-    createAgent: async (projectId: string, data: { name: string; target: string; chaosProfile?: object }): Promise<{ agent: Agent }> => {
+    createAgent: async (
+      projectId: string,
+      data: { name: string; target: string; env?: Record<string, string>; cwd?: string; secret?: TargetSecret; chaosProfile?: object }
+    ): Promise<{ agent: Agent }> => {
       const res = await fetch(`${API_BASE}/projects/${projectId}/agents`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
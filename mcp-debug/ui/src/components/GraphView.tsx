@@ -8,6 +8,7 @@ import ReactFlow, {
 import type { Node, Edge } from 'reactflow';
 import 'reactflow/dist/style.css';
 import type { TraceEvent } from '../api/client';
+import { describeChaos } from '../utils/chaos';
 
 interface GraphViewProps {
   events: TraceEvent[];
@@ -16,8 +17,8 @@ interface GraphViewProps {
 
 // Color coding based on latency and success
 function getNodeColor(event: TraceEvent): string {
-  if (event.error_json) {
-    return '#ef4444'; // Red for errors
+  if (event.is_error) {
+    return '#ef4444'; // Red for errors, including isError tool results
   }
   const latency = event.latency_ms ?? 0;
   if (latency < 100) {
@@ -56,7 +57,7 @@ function EventNode({ data }: { data: { event: TraceEvent; label: string } }) {
         <div className="text-xs opacity-80 mt-1">{event.latency_ms}ms</div>
       )}
       {hasChaos && (
-        <div className="text-xs mt-1 bg-purple-700 rounded px-1">chaos</div>
+        <div className="text-xs mt-1 bg-purple-700 rounded px-1">{describeChaos(event.chaos_applied).join(' · ')}</div>
       )}
     </div>
   );
@@ -1,6 +1,6 @@
 import { useState, useEffect, useCallback } from 'react';
 import { api, liveConnection } from '../api/client';
-import type { Project, Agent, Run, UpdateMessage, TraceEvent } from '../api/client';
+import type { Project, Agent, Run, UpdateMessage, TraceEvent, TargetSpec } from '../api/client';
 
 interface SelectionState {
   projectId: string;
@@ -288,6 +288,9 @@ export function ProjectView({ onSelectRun, selection, onSelectionChange }: Proje
                   </button>
                 </div>
                 <p className="text-xs text-gray-400 mt-1 truncate font-mono">{agent.target}</p>
+                {describeTargetSpec(agent.target_spec) && (
+                  <p className="text-xs text-gray-500 mt-1 truncate font-mono">{describeTargetSpec(agent.target_spec)}</p>
+                )}
                 <div className="mt-2 text-xs text-gray-500">
                   ID: <code className="bg-gray-700 px-1 rounded">{agent.id.slice(0, 8)}</code>
                 </div>
@@ -555,13 +558,30 @@ function NewProjectModal({ onClose, onCreated }: { onClose: () => void; onCreate
 function NewAgentModal({ projectId, onClose, onCreated }: { projectId: string; onClose: () => void; onCreated: (a: Agent) => void }) {
   const [name, setName] = useState('');
   const [target, setTarget] = useState('');
+  const [cwd, setCwd] = useState('');
+  const [env, setEnv] = useState('');
+  const [secretEnv, setSecretEnv] = useState('');
+  const [secretValue, setSecretValue] = useState('');
   const [creating, setCreating] = useState(false);
 
   const handleCreate = async () => {
     if (!name.trim() || !target.trim()) return;
+    // One KEY=VALUE per line
+    const envVars = Object.fromEntries(
+      env.split('\n')
+        .map(line => line.trim())
+        .filter(line => line.includes('='))
+        .map(line => [line.slice(0, line.indexOf('=')).trim(), line.slice(line.indexOf('=') + 1)])
+    );
     try {
       setCreating(true);
-      const { agent } = await api.projects.createAgent(projectId, { name: name.trim(), target: target.trim() });
+      const { agent } = await api.projects.createAgent(projectId, {
+        name: name.trim(),
+        target: target.trim(),
+        ...(cwd.trim() && { cwd: cwd.trim() }),
+        ...(Object.keys(envVars).length > 0 && { env: envVars }),
+        ...(secretEnv.trim() && secretValue && { secret: { env: secretEnv.trim(), value: secretValue } }),
+      });
       onCreated(agent);
     } catch (err) {
       console.error('Failed to create agent:', err);
@@ -597,6 +617,47 @@ function NewAgentModal({ projectId, onClose, onCreated }: { projectId: string; o
               className="w-full bg-gray-700 border border-gray-600 rounded px-3 py-2 text-white font-mono text-sm"
             />
           </div>
+          <div>
+            <label className="block text-sm text-gray-400 mb-1">Working Directory</label>
+            <input
+              type="text"
+              value={cwd}
+              onChange={(e) => setCwd(e.target.value)}
+              placeholder="Optional"
+              className="w-full bg-gray-700 border border-gray-600 rounded px-3 py-2 text-white font-mono text-sm"
+            />
+          </div>
+          <div>
+            <label className="block text-sm text-gray-400 mb-1">Environment</label>
+            <textarea
+              value={env}
+              onChange={(e) => setEnv(e.target.value)}
+              placeholder="LOG_LEVEL=debug"
+              rows={3}
+              className="w-full bg-gray-700 border border-gray-600 rounded px-3 py-2 text-white font-mono text-sm"
+            />
+          </div>
+          <div>
+            <label className="block text-sm text-gray-400 mb-1">Secret</label>
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={secretEnv}
+                onChange={(e) => setSecretEnv(e.target.value)}
+                placeholder="GITHUB_TOKEN"
+                className="w-1/2 bg-gray-700 border border-gray-600 rounded px-3 py-2 text-white font-mono text-sm"
+              />
+              <input
+                type="password"
+                value={secretValue}
+                onChange={(e) => setSecretValue(e.target.value)}
+                placeholder="Value"
+                autoComplete="off"
+                className="w-1/2 bg-gray-700 border border-gray-600 rounded px-3 py-2 text-white font-mono text-sm"
+              />
+            </div>
+            <p className="text-xs text-gray-500 mt-1">Stored with the agent and never shown again</p>
+          </div>
         </div>
         <div className="flex justify-end gap-2 mt-6">
           <button onClick={onClose} className="px-4 py-2 text-gray-400 hover:text-white">
@@ -614,3 +675,15 @@ function NewAgentModal({ projectId, onClose, onCreated }: { projectId: string; o
     </div>
   );
 }
+
+// Agent card summary of a spec's extras; the secret value arrives masked
+function describeTargetSpec(spec: TargetSpec): string | null {
+  const parts: string[] = [];
+  if (spec.cwd) parts.push(`cwd: ${spec.cwd}`);
+  if (spec.env && Object.keys(spec.env).length > 0) parts.push(`env: ${Object.keys(spec.env).join(', ')}`);
+  if (spec.secret) {
+    const name = spec.secret.env ?? 'bearer';
+    parts.push(spec.secret.fromEnv ? `secret: ${name} from $${spec.secret.fromEnv}` : `secret: ${name}=${spec.secret.value}`);
+  }
+  return parts.length > 0 ? parts.join(' · ') : null;
+}
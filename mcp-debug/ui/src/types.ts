@@ -6,11 +6,34 @@ export interface TraceCall {
   result?: unknown
   error?: { code: number; message: string; data?: unknown }
   latencyMs: number
-  chaos?: {
-    delayInjected?: number
-    errorInjected?: boolean
-    responseCorrupted?: boolean
+  chaos?: ChaosApplied
+}
+
+export interface ChaosApplied {
+  delayMs?: number
+  errorInjected?: boolean
+  errorKind?: 'tool'
+  responseCorrupted?: boolean
+  corruption?: string
+  wireFaults?: string[]
+  timedOut?: boolean
+  timeoutMs?: number
+  phase?: string
+  failPattern?: string
+  matchedRule?: string
+  hiddenTools?: string[]
+  drifted?: boolean
+  crashed?: boolean
+  throttled?: boolean
+  retryAfterMs?: number
+  adversarial?: {
+    payload: string
+    content?: number
+    start?: number
+    end?: number
   }
+  seed?: number
+  callIndex?: number
 }
 
 export interface Trace {
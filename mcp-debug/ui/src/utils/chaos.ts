@@ -0,0 +1,30 @@
+import type { ChaosApplied } from '../types'
+
+/**
+ * Short labels for the faults recorded in a trace event's chaos_applied column
+ */
+export function describeChaos(chaosJson: string | null): string[] {
+  if (!chaosJson) return []
+
+  let chaos: ChaosApplied
+  try {
+    chaos = JSON.parse(chaosJson)
+  } catch {
+    return ['chaos']
+  }
+
+  const labels: string[] = []
+  const errorLabel = chaos.errorKind === 'tool' ? 'tool error' : 'error'
+  if (chaos.delayMs) labels.push(`+${chaos.delayMs}ms`)
+  if (chaos.errorInjected) labels.push(chaos.failPattern ? `${errorLabel} (${chaos.failPattern})` : errorLabel)
+  if (chaos.throttled) labels.push(`throttled (retry ${chaos.retryAfterMs}ms)`)
+  if (chaos.timedOut) labels.push('timeout')
+  if (chaos.responseCorrupted) labels.push(chaos.corruption ?? 'corrupted')
+  if (chaos.wireFaults) labels.push(...chaos.wireFaults)
+  if (chaos.matchedRule) labels.push(`rule: ${chaos.matchedRule}`)
+  if (chaos.hiddenTools) labels.push(`hidden: ${chaos.hiddenTools.join(', ')}`)
+  if (chaos.drifted) labels.push('drift')
+  if (chaos.crashed) labels.push('crash')
+  if (chaos.adversarial) labels.push(`injected: ${chaos.adversarial.payload}`)
+  return labels.length > 0 ? labels : ['chaos']
+}
@@ -0,0 +1,11 @@
+import type { TraceEvent } from '../api/client'
+
+/**
+ * Badge for a failed event: a JSON-RPC error, a tool result with isError,
+ * or a call that never got an answer. Null if the event succeeded.
+ */
+export function failureLabel(event: TraceEvent): string | null {
+  if (event.error_json) return 'Error'
+  if (!event.is_error) return null
+  return event.result_json ? 'Tool error' : 'Failed'
+}